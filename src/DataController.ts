@@ -22,25 +22,76 @@ import {
     getColumnHeaders,
     findFirstActiveDirectoryOrWorkspaceDirectory,
     getDailyReportSummaryFile,
+    getStandupFile,
+    getTimesheetCsvFile,
+    getTimesheetJsonFile,
+    getTicketReportFile,
+    getTicketCsvFile,
+    getWorkspaceFolders,
     getAuthCallbackState,
     setAuthCallbackState,
+    isLocalOnlyMode,
+    humanizeMinutes,
+    getNowTimes,
+    isGitProject,
+    DASHBOARD_COL_WIDTH,
 } from "./Util";
 import { buildWebDashboardUrl } from "./menu/MenuManager";
-import { DEFAULT_SESSION_THRESHOLD_SECONDS } from "./Constants";
-import { CommitChangeStats } from "./model/models";
+import { DEFAULT_SESSION_THRESHOLD_SECONDS, UNTITLED } from "./Constants";
+import {
+    CommitChangeStats,
+    CommitInfo,
+    SessionSummary,
+    FileChangeInfo,
+} from "./model/models";
+import CodeTimeSummary from "./model/CodeTimeSummary";
+import DayHistory from "./model/DayHistory";
+import HistorySummary from "./model/HistorySummary";
+import FileHistory from "./model/FileHistory";
+import LanguageHistory from "./model/LanguageHistory";
+import ActivityHeatmap from "./model/ActivityHeatmap";
+import { getActivityHeatmap, getActivityRecords } from "./storage/ActivityLogData";
+import ActivityRecord from "./model/ActivityRecord";
+import TimesheetEntry from "./model/TimesheetEntry";
 import {
     clearSessionSummaryData,
+    getSessionSummaryData,
 } from "./storage/SessionSummaryData";
 import {
     getTodaysCommits,
     getThisWeeksCommits,
     getYesterdaysCommits,
+    getCommits,
+    getUncommitedChanges,
+    getWorkspaceRepos,
 } from "./repo/GitUtil";
+import GitRepo from "./model/GitRepo";
+import CommitTime from "./model/CommitTime";
+import { getCommitTimes } from "./storage/CommitTimeData";
+import BranchTime from "./model/BranchTime";
+import BranchSwitch from "./model/BranchSwitch";
+import { getBranchTimes, getBranchSwitches } from "./storage/BranchData";
+import TicketTime from "./model/TicketTime";
+import { getTicketTimes } from "./storage/TicketData";
+import ChurnStats from "./model/ChurnStats";
+import ChurnSummary from "./model/ChurnSummary";
+import { getChurnSummary, getReworkPercent, getHotspots } from "./repo/GitChurn";
+import Ownership, { Owner } from "./model/Ownership";
+import OwnershipSummary from "./model/OwnershipSummary";
+import { getOwnershipSummary } from "./repo/GitOwnership";
 import { KpmProviderManager, treeDataUpdateCheck } from "./tree/KpmProviderManager";
-import { clearTimeDataSummary } from "./storage/TimeSummaryData";
+import { clearTimeDataSummary, getCodeTimeSummary } from "./storage/TimeSummaryData";
+import { getFileChangeSummaryAsJson } from "./storage/FileChangeInfoSummaryData";
+import {
+    getHistoryForRange,
+    getHistoryForLastDays,
+    getHistorySummary,
+    getLanguageBreakdown,
+} from "./storage/HistoryData";
 
 const fileIt = require("file-it");
 const moment = require("moment-timezone");
+const path = require("path");
 
 let toggleFileEventLogging = null;
 let userFetchTimeout = null;
@@ -265,16 +316,502 @@ export async function launchWebDashboard() {
     launchWebUrl(webUrl);
 }
 
+/**
+ * Writes the day by day report of the selected projects using the local history
+ * and git logs. The range is either a range type (i.e. "yesterday") or the
+ * local_start and local_end selected in the custom date range menu.
+ * @param type
+ * @param projectDirs
+ * @param local_start
+ * @param local_end
+ */
 export async function writeDailyReportDashboard(
     type = "yesterday",
-    projectIds = []
+    projectDirs = [],
+    local_start = 0,
+    local_end = 0
 ) {
-    let dashboardContent = "";
+    const { startDay, endDay } = getReportDayRange(type, local_start, local_end);
+
+    const entries: DayHistory[] = getHistoryForRange(startDay, endDay).filter(
+        (n: DayHistory) => projectDirs.includes(n.project.directory)
+    );
+
+    // get the commits of each project within the range
+    const rangeStart = moment(startDay, "YYYY-MM-DD").startOf("day").unix();
+    const rangeEnd = moment(endDay, "YYYY-MM-DD").endOf("day").unix();
+    const commits: CommitInfo[] = [];
+    for (let i = 0; i < projectDirs.length; i++) {
+        const projectCommits: CommitInfo[] = await getCommits(
+            projectDirs[i],
+            rangeStart,
+            rangeEnd
+        );
+        commits.push(...projectCommits);
+    }
+
+    const now = moment().unix();
+    const formattedDate = moment.unix(now).format("ddd, MMM Do h:mma");
+    let dashboardContent = getTableHeader(
+        "DAILY REPORT",
+        ` (Last updated on ${formattedDate})`
+    );
+    dashboardContent += "\n\n";
+    const rangeStartStr = moment(startDay, "YYYY-MM-DD").format("MMM Do, YYYY");
+    const rangeEndStr = moment(endDay, "YYYY-MM-DD").format("MMM Do, YYYY");
+    dashboardContent += `Date range: ${rangeStartStr} to ${rangeEndStr}\n`;
+    const projectNames = projectDirs.map((dir) => path.basename(dir));
+    dashboardContent += `Projects: ${projectNames.join(", ")}\n\n`;
+
+    // TOTALS for the range
+    const rangeSummary: HistorySummary = getHistorySummary(entries);
+    dashboardContent += getRightAlignedTableHeader("Total");
+    dashboardContent += getDailyReportRows(rangeSummary, commits);
+    dashboardContent += "\n";
+    dashboardContent += getLanguagesContent("Languages", getLanguageBreakdown(entries));
+    dashboardContent += getBranchesContent("Branches", getBranchTimes(startDay, endDay, projectDirs));
+    const branchSwitches: BranchSwitch[] = getBranchSwitches(startDay, endDay, projectDirs);
+
+    // DAY BY DAY, most recent first
+    let day = moment(endDay, "YYYY-MM-DD");
+    while (day.format("YYYY-MM-DD") >= startDay) {
+        const dayStr = day.format("YYYY-MM-DD");
+        const dayEntries: DayHistory[] = entries.filter((n: DayHistory) => n.day === dayStr);
+        const dayCommits: CommitInfo[] = commits.filter(
+            (n: CommitInfo) => moment.unix(n.timestamp).format("YYYY-MM-DD") === dayStr
+        );
+        if (dayEntries.length || dayCommits.length) {
+            dashboardContent += getRightAlignedTableHeader(day.format("ddd, MMM Do, YYYY"));
+            dashboardContent += getDailyReportRows(getHistorySummary(dayEntries), dayCommits);
+
+            const topFiles: FileHistory[] = [];
+            dayEntries.forEach((n: DayHistory) => topFiles.push(...(n.top_files || [])));
+            topFiles.sort((a: FileHistory, b: FileHistory) => b.keystrokes - a.keystrokes);
+            if (topFiles.length) {
+                dashboardContent += "\n";
+                dashboardContent += getColumnHeaders(["Top files", "Code time", "Keystrokes"]);
+                topFiles.slice(0, 5).forEach((n: FileHistory) => {
+                    dashboardContent += getRowLabels([
+                        truncateLabel(n.name),
+                        humanizeMinutes(n.duration_seconds / 60),
+                        formatNumber(n.keystrokes),
+                    ]);
+                });
+            }
+
+            if (dayCommits.length) {
+                dashboardContent += "\nCommits\n";
+                dayCommits.forEach((n: CommitInfo) => {
+                    dashboardContent += `  ${n.commitId.substring(0, 7)} ${n.message}\n`;
+                });
+            }
+
+            const daySwitches: BranchSwitch[] = branchSwitches.filter(
+                (n: BranchSwitch) => moment.unix(n.timestamp).format("YYYY-MM-DD") === dayStr
+            );
+            if (daySwitches.length) {
+                dashboardContent += "\nBranch switches\n";
+                daySwitches.forEach((n: BranchSwitch) => {
+                    const time = moment.unix(n.timestamp).format("h:mma");
+                    const repoName = path.basename(n.repo_directory);
+                    dashboardContent += `  ${time} ${repoName}: ${n.from_branch} -> ${n.to_branch}\n`;
+                });
+            }
+            dashboardContent += "\n";
+        }
+        day = day.subtract(1, "day");
+    }
+
+    if (!entries.length && !commits.length) {
+        dashboardContent += "No activity was found for the selected date range and projects.\n";
+    }
 
     const file = getDailyReportSummaryFile();
     fileIt.writeContentFileSync(file, dashboardContent);
 }
 
+/**
+ * Writes a markdown standup note with the time, files and commits of
+ * yesterday and today, and the uncommitted changes of each project
+ */
+export async function writeStandupReport() {
+    const { day } = getNowTimes();
+    const yesterday = moment().subtract(1, "day").format("YYYY-MM-DD");
+    const entries: DayHistory[] = getHistoryForRange(yesterday, day);
+
+    // the workspace folders and any other project worked on
+    const projectMap = {};
+    getWorkspaceFolders().forEach((folder) => {
+        projectMap[folder.uri.fsPath] = folder.name;
+    });
+    entries.forEach((n: DayHistory) => {
+        if (n.project.directory && n.project.directory !== UNTITLED) {
+            projectMap[n.project.directory] = n.project.name;
+        }
+    });
+    const projectDirs = Object.keys(projectMap);
+
+    let content = `# Standup (${moment().format("ddd, MMM Do")})\n\n`;
+    const days = [
+        { title: `Yesterday (${moment().subtract(1, "day").format("ddd, MMM Do")})`, day: yesterday },
+        { title: "Today", day },
+    ];
+    for (let i = 0; i < days.length; i++) {
+        const start = moment(days[i].day, "YYYY-MM-DD").startOf("day").unix();
+        const end = moment(days[i].day, "YYYY-MM-DD").endOf("day").unix();
+
+        let dayContent = "";
+        for (let x = 0; x < projectDirs.length; x++) {
+            const projectDir = projectDirs[x];
+            const projectEntries: DayHistory[] = entries.filter(
+                (n: DayHistory) => n.day === days[i].day && n.project.directory === projectDir
+            );
+            const commits: CommitInfo[] = await getCommits(projectDir, start, end);
+            if (!projectEntries.length && !commits.length) {
+                continue;
+            }
+
+            const summary: HistorySummary = getHistorySummary(projectEntries);
+            dayContent += `### ${projectMap[projectDir]}\n\n`;
+            dayContent += `- Active code time: ${humanizeMinutes(summary.session_seconds / 60)}`;
+            dayContent += ` (code time: ${humanizeMinutes(summary.editor_seconds / 60)})\n`;
+
+            const files: FileHistory[] = [];
+            projectEntries.forEach((n: DayHistory) => files.push(...(n.top_files || [])));
+            if (files.length) {
+                const fileNames = files.map((n: FileHistory) => `\`${n.name}\``);
+                dayContent += `- Files touched: ${fileNames.join(", ")}\n`;
+            }
+            if (commits.length) {
+                dayContent += `- Commits:\n`;
+                commits.forEach((n: CommitInfo) => {
+                    dayContent += `  - ${n.message} (${n.commitId.substring(0, 7)})\n`;
+                });
+            }
+            dayContent += "\n";
+        }
+        content += `## ${days[i].title}\n\n`;
+        content += dayContent || "No activity.\n\n";
+    }
+
+    let openChanges = "";
+    for (let i = 0; i < projectDirs.length; i++) {
+        const changes: CommitChangeStats = await getUncommitedChanges(projectDirs[i]);
+        if (changes && (changes.insertions || changes.deletions)) {
+            openChanges += `- ${projectMap[projectDirs[i]]}: ${changes.fileCount} file(s) changed,`;
+            openChanges += ` +${changes.insertions} / -${changes.deletions}\n`;
+        }
+    }
+    content += `## Uncommitted changes\n\n`;
+    content += openChanges || "None.\n";
+
+    fileIt.writeContentFileSync(getStandupFile(), content);
+    return content;
+}
+
+function getLanguagesContent(title: string, languages: LanguageHistory[]) {
+    if (!languages.length) {
+        return "";
+    }
+    let content = getRightAlignedTableHeader(title);
+    content += getColumnHeaders(["Language", "Code time", "Keystrokes"]);
+    languages.slice(0, 5).forEach((n: LanguageHistory) => {
+        content += getRowLabels([
+            truncateLabel(n.language),
+            humanizeMinutes(n.duration_seconds / 60),
+            formatNumber(n.keystrokes),
+        ]);
+    });
+    content += "\n";
+    return content;
+}
+
+function getBranchesContent(title: string, branches: BranchTime[]) {
+    if (!branches.length) {
+        return "";
+    }
+    let content = getRightAlignedTableHeader(title);
+    content += getColumnHeaders(["Branch", "Active code time", "Keystrokes"]);
+    // the same branch name can be in more than one project
+    const showProject = branches.some((n: BranchTime) => n.project_directory !== branches[0].project_directory);
+    branches.slice(0, 10).forEach((n: BranchTime) => {
+        content += getRowLabels([
+            truncateLabel(showProject ? `${n.project_name}: ${n.branch}` : n.branch),
+            humanizeMinutes(n.active_seconds / 60),
+            formatNumber(n.keystrokes),
+        ]);
+    });
+    content += "\n";
+    return content;
+}
+
+function getDailyReportRows(summary: HistorySummary, commits: CommitInfo[]) {
+    let content = getColumnHeaders(["Metric", "Total"]);
+    content += getRowLabels(["Code time", humanizeMinutes(summary.editor_seconds / 60)]);
+    content += getRowLabels([
+        "Active code time",
+        humanizeMinutes(summary.session_seconds / 60),
+    ]);
+    content += getRowLabels(["Keystrokes", formatNumber(summary.keystrokes)]);
+    content += getRowLabels(["Lines added", formatNumber(summary.lines_added)]);
+    content += getRowLabels(["Lines removed", formatNumber(summary.lines_removed)]);
+    content += getRowLabels(["Commits", formatNumber(commits.length)]);
+    return content;
+}
+
+/**
+ * Writes the time per project per day of the selected range and projects to
+ * the CSV and JSON timesheet files. The time is rounded and the projects
+ * are mapped to clients using the codetime.timesheet settings.
+ * @param type
+ * @param projectDirs
+ * @param local_start
+ * @param local_end
+ */
+export async function writeTimesheet(
+    type = "lastWeek",
+    projectDirs = [],
+    local_start = 0,
+    local_end = 0
+): Promise<TimesheetEntry[]> {
+    const { startDay, endDay } = getReportDayRange(type, local_start, local_end);
+    const config = workspace.getConfiguration("codetime");
+    const roundingMinutes: number = config.get("timesheet.roundingMinutes") || 0;
+    const roundingMode: string = config.get("timesheet.roundingMode") || "nearest";
+    const useActiveCodeTime = config.get("timesheet.timeMetric") === "activeCodeTime";
+    const clients = config.get("timesheet.clients") || {};
+
+    // the first activity of each day and project is used as the start time
+    const firstStarts = {};
+    getActivityRecords(startDay, endDay).forEach((n: ActivityRecord) => {
+        const key = `${moment.unix(n.start).format("YYYY-MM-DD")}_${n.project_directory}`;
+        if (!firstStarts[key] || n.start < firstStarts[key]) {
+            firstStarts[key] = n.start;
+        }
+    });
+
+    const email = getItem("name") || "";
+    const entries: TimesheetEntry[] = [];
+    getHistoryForRange(startDay, endDay)
+        .filter((n: DayHistory) => projectDirs.includes(n.project.directory))
+        .forEach((n: DayHistory) => {
+            const seconds = useActiveCodeTime ? n.session_seconds : n.editor_seconds;
+            const roundedSeconds = roundTimesheetSeconds(seconds, roundingMinutes, roundingMode);
+            if (roundedSeconds <= 0) {
+                return;
+            }
+            const firstStart = firstStarts[`${n.day}_${n.project.directory}`];
+            const entry: TimesheetEntry = new TimesheetEntry();
+            entry.date = n.day;
+            entry.start_time = firstStart ? moment.unix(firstStart).format("HH:mm:ss") : "09:00:00";
+            entry.duration_seconds = roundedSeconds;
+            entry.hours = parseFloat((roundedSeconds / 3600).toFixed(2));
+            entry.project = n.project.name;
+            entry.project_directory = n.project.directory;
+            entry.client = clients[n.project.directory] || clients[n.project.name] || "";
+            entry.description = "Development";
+            entry.email = email;
+            entries.push(entry);
+        });
+
+    // Toggl, Clockify and Harvest can map these columns on import
+    const header = ["Email", "Start date", "Start time", "Duration", "Hours", "Client", "Project", "Description"];
+    let csvContent = `${header.join(",")}\n`;
+    entries.forEach((n: TimesheetEntry) => {
+        const duration = moment.utc(n.duration_seconds * 1000).format("HH:mm:ss");
+        const row = [n.email, n.date, n.start_time, duration, n.hours, n.client, n.project, n.description];
+        csvContent += `${row.map((value) => escapeCsvValue(value)).join(",")}\n`;
+    });
+    fileIt.writeContentFileSync(getTimesheetCsvFile(), csvContent);
+
+    const timesheet = {
+        start_day: startDay,
+        end_day: endDay,
+        rounding_minutes: roundingMinutes,
+        rounding_mode: roundingMode,
+        time_metric: useActiveCodeTime ? "activeCodeTime" : "codeTime",
+        entries,
+    };
+    fileIt.writeJsonFileSync(getTimesheetJsonFile(), timesheet, { spaces: 4 });
+    return entries;
+}
+
+/**
+ * Writes the time per ticket report of the selected range and projects.
+ * The tickets are found in the branch names and commit messages using
+ * the codetime.ticketPatterns setting.
+ * @param type
+ * @param projectDirs
+ * @param local_start
+ * @param local_end
+ */
+export async function writeTicketReport(
+    type = "lastWeek",
+    projectDirs = [],
+    local_start = 0,
+    local_end = 0
+): Promise<TicketTime[]> {
+    const { startDay, endDay } = getReportDayRange(type, local_start, local_end);
+    const ticketTimes: TicketTime[] = await getTicketTimes(startDay, endDay, projectDirs);
+
+    const now = moment().unix();
+    const formattedDate = moment.unix(now).format("ddd, MMM Do h:mma");
+    let dashboardContent = getTableHeader("TIME PER TICKET", ` (Last updated on ${formattedDate})`);
+    dashboardContent += "\n\n";
+    const rangeStartStr = moment(startDay, "YYYY-MM-DD").format("MMM Do, YYYY");
+    const rangeEndStr = moment(endDay, "YYYY-MM-DD").format("MMM Do, YYYY");
+    dashboardContent += `Date range: ${rangeStartStr} to ${rangeEndStr}\n`;
+    const projectNames = projectDirs.map((dir) => path.basename(dir));
+    dashboardContent += `Projects: ${projectNames.join(", ")}\n\n`;
+
+    if (!ticketTimes.length) {
+        dashboardContent += "No activity was found for the selected date range and projects.\n";
+        fileIt.writeContentFileSync(getTicketReportFile(), dashboardContent);
+        return ticketTimes;
+    }
+
+    // TOTALS per ticket, the time without a ticket is last
+    const totals = {};
+    ticketTimes.forEach((n: TicketTime) => {
+        const total = totals[n.ticket] || { ticket: n.ticket, active_seconds: 0, keystrokes: 0, days: {} };
+        total.active_seconds += n.active_seconds;
+        total.keystrokes += n.keystrokes;
+        total.days[n.day] = true;
+        totals[n.ticket] = total;
+    });
+    const ticketTotals = Object.keys(totals)
+        .map((key) => totals[key])
+        .sort((a, b) => (a.ticket ? 0 : 1) - (b.ticket ? 0 : 1) || b.active_seconds - a.active_seconds);
+    dashboardContent += getRightAlignedTableHeader("Total");
+    dashboardContent += getColumnHeaders(["Ticket", "Active code time", "Days"]);
+    ticketTotals.forEach((n) => {
+        dashboardContent += getRowLabels([
+            truncateLabel(n.ticket || "No ticket"),
+            humanizeMinutes(n.active_seconds / 60),
+            formatNumber(Object.keys(n.days).length),
+        ]);
+    });
+    dashboardContent += "\n";
+
+    // DAY BY DAY, most recent first
+    const days = Array.from(new Set(ticketTimes.map((n: TicketTime) => n.day))).sort().reverse();
+    days.forEach((day: string) => {
+        dashboardContent += getRightAlignedTableHeader(moment(day, "YYYY-MM-DD").format("ddd, MMM Do, YYYY"));
+        dashboardContent += getColumnHeaders(["Ticket", "Active code time", "Keystrokes"]);
+        ticketTimes
+            .filter((n: TicketTime) => n.day === day)
+            .forEach((n: TicketTime) => {
+                dashboardContent += getRowLabels([
+                    truncateLabel(n.ticket || "No ticket"),
+                    humanizeMinutes(n.active_seconds / 60),
+                    formatNumber(n.keystrokes),
+                ]);
+            });
+        dashboardContent += "\n";
+    });
+
+    fileIt.writeContentFileSync(getTicketReportFile(), dashboardContent);
+    return ticketTimes;
+}
+
+/**
+ * Writes the time per ticket, project and day of the selected range and
+ * projects to a CSV file that can be used to fill in the worklogs
+ * @param type
+ * @param projectDirs
+ * @param local_start
+ * @param local_end
+ */
+export async function writeTicketCsv(
+    type = "lastWeek",
+    projectDirs = [],
+    local_start = 0,
+    local_end = 0
+): Promise<TicketTime[]> {
+    const { startDay, endDay } = getReportDayRange(type, local_start, local_end);
+    const ticketTimes: TicketTime[] = (await getTicketTimes(startDay, endDay, projectDirs)).filter(
+        (n: TicketTime) => n.ticket && Math.round(n.active_seconds) > 0
+    );
+
+    const header = ["Date", "Ticket", "Duration", "Hours", "Project", "Branches"];
+    let csvContent = `${header.join(",")}\n`;
+    ticketTimes.forEach((n: TicketTime) => {
+        const duration = moment.utc(Math.round(n.active_seconds) * 1000).format("HH:mm:ss");
+        const hours = parseFloat((n.active_seconds / 3600).toFixed(2));
+        const row = [n.day, n.ticket, duration, hours, n.project_name, n.branches.join(" ")];
+        csvContent += `${row.map((value) => escapeCsvValue(value)).join(",")}\n`;
+    });
+    fileIt.writeContentFileSync(getTicketCsvFile(), csvContent);
+    return ticketTimes;
+}
+
+function roundTimesheetSeconds(seconds: number, roundingMinutes: number, roundingMode: string) {
+    if (!roundingMinutes || roundingMinutes <= 0) {
+        return Math.round(seconds);
+    }
+    const increments = seconds / (roundingMinutes * 60);
+    let rounded = Math.round(increments);
+    if (roundingMode === "up") {
+        rounded = Math.ceil(increments);
+    } else if (roundingMode === "down") {
+        rounded = Math.floor(increments);
+    }
+    return rounded * roundingMinutes * 60;
+}
+
+function escapeCsvValue(value) {
+    const str = value === null || value === undefined ? "" : `${value}`;
+    if (/[",\r\n]/.test(str)) {
+        return `"${str.replace(/"/g, '""')}"`;
+    }
+    return str;
+}
+
+/**
+ * Returns the start and end day (YYYY-MM-DD) of the range type or
+ * of the local start and end selected in the custom range menu
+ */
+function getReportDayRange(type: string, local_start: number, local_end: number) {
+    if (type) {
+        return getDayRangeByType(type);
+    }
+    return {
+        startDay: moment.unix(local_start).utc().format("YYYY-MM-DD"),
+        endDay: moment.unix(local_end).utc().format("YYYY-MM-DD"),
+    };
+}
+
+/**
+ * Returns the start and end day (YYYY-MM-DD) of the date range type
+ * @param type
+ */
+function getDayRangeByType(type = "yesterday") {
+    let startOf = moment().subtract(1, "day").startOf("day");
+    let endOf = moment().subtract(1, "day").endOf("day");
+
+    if (type === "currentWeek") {
+        startOf = moment().startOf("week");
+        endOf = moment();
+    } else if (type === "lastWeek") {
+        startOf = moment().startOf("week").subtract(1, "week");
+        endOf = moment().startOf("week").subtract(1, "week").endOf("week");
+    } else if (type === "thisMonth") {
+        startOf = moment().startOf("month");
+        endOf = moment();
+    } else if (type === "lastMonth") {
+        startOf = moment().subtract(1, "month").startOf("month");
+        endOf = moment().subtract(1, "month").endOf("month");
+    } else if (type === "lastNinetyDays") {
+        startOf = moment().startOf("day").subtract(90, "days");
+        endOf = moment();
+    }
+
+    return {
+        startDay: startOf.format("YYYY-MM-DD"),
+        endDay: endOf.format("YYYY-MM-DD"),
+    };
+}
+
 export async function writeProjectCommitDashboardByStartEnd(
     start,
     end,
@@ -282,7 +819,8 @@ export async function writeProjectCommitDashboardByStartEnd(
 ) {
     const api = `/v1/user_metrics/project_summary`;
     const result = await softwarePost(api, { project_ids, start, end }, getItem("jwt"));
-    await writeProjectCommitDashboard(result);
+    const { startDay, endDay } = getReportDayRange(null, start, end);
+    await writeProjectCommitDashboard(result, startDay, endDay);
 }
 
 export async function writeProjectCommitDashboardByRangeType(
@@ -292,10 +830,11 @@ export async function writeProjectCommitDashboardByRangeType(
     project_ids = project_ids.filter((n) => n);
     const api = `/v1/user_metrics/project_summary`;
     const result = await softwarePost(api, { project_ids, time_range: type }, getItem("jwt"));
-    await writeProjectCommitDashboard(result);
+    const { startDay, endDay } = getDayRangeByType(type);
+    await writeProjectCommitDashboard(result, startDay, endDay);
 }
 
-export async function writeProjectCommitDashboard(apiResult) {
+export async function writeProjectCommitDashboard(apiResult, startDay = "", endDay = "") {
     let dashboardContent = "";
     // [{projectId, name, identifier, commits, files_changed, insertions, deletions, hours,
     //   keystrokes, characters_added, characters_deleted, lines_added, lines_removed},...]
@@ -305,10 +844,55 @@ export async function writeProjectCommitDashboard(apiResult) {
         dashboardContent += "No data available\n";
     }
 
+    if (startDay && endDay) {
+        const workspaceDirs: string[] = getWorkspaceFolders().map((folder) => folder.uri.fsPath);
+        const branches: BranchTime[] = getBranchTimes(startDay, endDay, workspaceDirs);
+        if (branches.length) {
+            dashboardContent += "\n";
+            dashboardContent += getBranchesContent("Time per branch", branches);
+        }
+        dashboardContent += await getCommitTimeContent(startDay, endDay);
+    }
+
     const file = getProjectCodeSummaryFile();
     fileIt.writeContentFileSync(file, dashboardContent);
 }
 
+/**
+ * Returns the "Time per commit" section of the workspace repos, the code
+ * time spent on the files of each of your commits within the range
+ * @param startDay
+ * @param endDay
+ */
+async function getCommitTimeContent(startDay: string, endDay: string) {
+    const start = moment(startDay, "YYYY-MM-DD").startOf("day").unix();
+    const end = moment(endDay, "YYYY-MM-DD").endOf("day").unix();
+
+    let content = "";
+    const repos: GitRepo[] = getWorkspaceRepos();
+    for (let i = 0; i < repos.length; i++) {
+        const commitTimes: CommitTime[] = await getCommitTimes(repos[i].directory, start, end);
+        if (!commitTimes.length) {
+            continue;
+        }
+        content += "\n";
+        content += getRightAlignedTableHeader(`Time per commit (${repos[i].name})`);
+        content += getColumnHeaders(["Commit", "Code time", "Files"]);
+        // most recent first
+        commitTimes
+            .slice()
+            .reverse()
+            .forEach((n: CommitTime) => {
+                content += getRowLabels([
+                    truncateLabel(n.message),
+                    humanizeMinutes(n.active_seconds / 60),
+                    formatNumber(n.files_with_activity),
+                ]);
+            });
+    }
+    return content;
+}
+
 export async function writeProjectContributorCommitDashboardFromGitLogs(
     identifier
 ) {
@@ -421,10 +1005,107 @@ export async function writeProjectContributorCommitDashboardFromGitLogs(
 
     dashboardContent += "\n";
 
+    // CHURN AND REWORK
+    dashboardContent += getChurnContent(await getChurnSummary(activeRootPath));
+
+    // OWNERSHIP AND BUS FACTOR
+    dashboardContent += getOwnershipContent(await getOwnershipSummary(activeRootPath));
+
     const file = getProjectContributorCodeSummaryFile();
     fileIt.writeContentFileSync(file, dashboardContent);
 }
 
+function getChurnContent(churnSummary: ChurnSummary) {
+    if (!churnSummary || !churnSummary.totals.commits) {
+        return "";
+    }
+    let content = getRightAlignedTableHeader(`Churn (last ${churnSummary.days} days)`);
+    content += getColumnHeaders(["Metric", "Total"]);
+    content += getRowLabels(["Commits", formatNumber(churnSummary.totals.commits)]);
+    content += getRowLabels(["Lines added", formatNumber(churnSummary.totals.lines_added)]);
+    content += getRowLabels(["Lines deleted", formatNumber(churnSummary.totals.lines_deleted)]);
+    content += getRowLabels(["Rework lines", formatNumber(churnSummary.totals.rework_lines)]);
+    content += getRowLabels(["Rework", `${getReworkPercent(churnSummary.totals)}%`]);
+    content += "\n";
+    content += `Rework is the share of added lines that were rewritten or deleted within ${churnSummary.rework_days} days of being written.\n`;
+    if (churnSummary.partial) {
+        content += "Only part of the deleted lines were analyzed.\n";
+    }
+    content += "\n";
+
+    content += getRightAlignedTableHeader("Rework by contributor");
+    content += getColumnHeaders(["Contributor", "Rework", "Lines added"]);
+    churnSummary.authors.slice(0, 10).forEach((n: ChurnStats) => {
+        content += getRowLabels([
+            truncateLabel(n.name),
+            `${getReworkPercent(n)}%`,
+            formatNumber(n.lines_added),
+        ]);
+    });
+    content += "\n";
+
+    const hotspots: ChurnStats[] = getHotspots(churnSummary);
+    if (hotspots.length) {
+        content += getRightAlignedTableHeader("Hotspots");
+        content += getColumnHeaders(["File", "Rework lines", "Churn"]);
+        hotspots.forEach((n: ChurnStats) => {
+            content += getRowLabels([
+                truncateLabel(path.basename(n.name)),
+                formatNumber(n.rework_lines),
+                formatNumber(n.lines_added + n.lines_deleted),
+            ]);
+        });
+        content += "\n";
+    }
+    return content;
+}
+
+function getOwnershipContent(ownershipSummary: OwnershipSummary) {
+    if (!ownershipSummary || !ownershipSummary.files.length) {
+        return "";
+    }
+    const repoRoot = ownershipSummary.project_directory;
+    let content = getRightAlignedTableHeader("Bus factor by folder");
+    content += getColumnHeaders(["Folder", "Main owner", "Bus factor"]);
+    ownershipSummary.folders.forEach((n: Ownership) => {
+        const mainOwner: Owner = n.owners[0];
+        content += getRowLabels([
+            truncateLabel(n.name === repoRoot ? "(root files)" : path.basename(n.name)),
+            truncateLabel(mainOwner ? `${mainOwner.email} ${mainOwner.percent}%` : ""),
+            formatNumber(n.bus_factor),
+        ]);
+    });
+    content += "\n";
+    content += "The bus factor is the fewest people that own more than half of the lines.\n";
+    if (ownershipSummary.partial) {
+        content += "Only the files with the most history were blamed, the lines of the rest are split by who added lines to them.\n";
+    }
+    content += "\n";
+
+    content += getRightAlignedTableHeader("Main file owners");
+    content += getColumnHeaders(["File", "Main owner", "Share"]);
+    ownershipSummary.files.slice(0, 10).forEach((n: Ownership) => {
+        const mainOwner: Owner = n.owners[0];
+        content += getRowLabels([
+            truncateLabel(path.basename(n.name)),
+            truncateLabel(mainOwner ? mainOwner.email : ""),
+            mainOwner ? `${mainOwner.percent}%` : "",
+        ]);
+    });
+    content += "\n";
+
+    const singleOwnerFiles: string[] = ownershipSummary.single_owner_files;
+    content += `Files only one person has touched: ${formatNumber(singleOwnerFiles.length)}\n`;
+    singleOwnerFiles.slice(0, 20).forEach((file: string) => {
+        content += `  ${path.relative(repoRoot, file)}\n`;
+    });
+    if (singleOwnerFiles.length > 20) {
+        content += `  ...and ${formatNumber(singleOwnerFiles.length - 20)} more\n`;
+    }
+    content += "\n";
+    return content;
+}
+
 export async function writeProjectContributorCommitDashboard(identifier) {
     const qryStr = `?identifier=${encodeURIComponent(identifier)}`;
     const api = `/projects/contributorSummary${qryStr}`;
@@ -564,18 +1245,26 @@ function createStartEndRangeByType(type = "lastWeek") {
 }
 
 export async function writeCodeTimeMetricsDashboard() {
+    const jwt = getItem("jwt");
+    if (isLocalOnlyMode() || !jwt) {
+        // build the summary from the local data files
+        return writeLocalCodeTimeMetricsDashboard();
+    }
+
     const summaryInfoFile = getSummaryInfoFile();
 
     // write the code time metrics summary to the summaryInfo file
     let api = `/dashboard?linux=${isLinux()}&showToday=true`;
-    const result = await softwareGet(api, getItem("jwt"));
+    const result = await softwareGet(api, jwt);
 
-    if (isResponseOk(result)) {
-        // get the string content out
-        const content = result.data;
-        fileIt.writeContentFileSync(summaryInfoFile, content);
+    if (!isResponseOk(result)) {
+        // offline or the request failed, don't show the stale summary
+        return writeLocalCodeTimeMetricsDashboard();
     }
 
+    // get the string content out
+    fileIt.writeContentFileSync(summaryInfoFile, result.data);
+
     // create the header
     let dashboardContent = "";
 
@@ -586,7 +1275,251 @@ export async function writeCodeTimeMetricsDashboard() {
         dashboardContent += summaryContent;
     }
 
+    // the hourly activity comes from the local activity log
+    dashboardContent += "\n";
+    dashboardContent += getActivityHeatmapContent(getLastThirtyDaysHeatmap());
+
     // now write it all out to the dashboard file
     const dashboardFile = getDashboardFile();
     fileIt.writeContentFileSync(dashboardFile, dashboardContent);
 }
+
+/**
+ * Writes the code time summary using the local session, time,
+ * file change and history data along with the git stats
+ */
+export async function writeLocalCodeTimeMetricsDashboard() {
+    const sessionSummary: SessionSummary = getSessionSummaryData();
+    const codeTimeSummary: CodeTimeSummary = getCodeTimeSummary();
+    const fileChangeInfoMap = getFileChangeSummaryAsJson();
+    const { day } = getNowTimes();
+
+    const now = moment().unix();
+    const formattedDate = moment.unix(now).format("ddd, MMM Do h:mma");
+    let dashboardContent = getTableHeader(
+        "CODE TIME",
+        ` (Last updated on ${formattedDate})`
+    );
+    dashboardContent += "\n\n";
+
+    // TODAY, compared to the daily average of the previous 30 days
+    const yesterday = moment().subtract(1, "day").format("YYYY-MM-DD");
+    const monthStart = moment().subtract(30, "days").format("YYYY-MM-DD");
+    const averages: HistorySummary = getHistorySummary(
+        getHistoryForRange(monthStart, yesterday)
+    );
+    const avgDays = Math.max(averages.days, 1);
+
+    const todayDate = moment.unix(now).format("MMM Do, YYYY");
+    dashboardContent += getRightAlignedTableHeader(`Today (${todayDate})`);
+    dashboardContent += getColumnHeaders(["Metric", "Today", "Daily average"]);
+    dashboardContent += getRowLabels([
+        "Code time",
+        humanizeMinutes(codeTimeSummary.codeTimeMinutes),
+        humanizeMinutes(averages.editor_seconds / 60 / avgDays),
+    ]);
+    dashboardContent += getRowLabels([
+        "Active code time",
+        humanizeMinutes(codeTimeSummary.activeCodeTimeMinutes),
+        humanizeMinutes(averages.session_seconds / 60 / avgDays),
+    ]);
+    dashboardContent += getRowLabels([
+        "Lines added",
+        formatNumber(sessionSummary.currentDayLinesAdded),
+        formatNumber(averages.lines_added / avgDays),
+    ]);
+    dashboardContent += getRowLabels([
+        "Lines removed",
+        formatNumber(sessionSummary.currentDayLinesRemoved),
+        formatNumber(averages.lines_removed / avgDays),
+    ]);
+    dashboardContent += getRowLabels([
+        "Keystrokes",
+        formatNumber(sessionSummary.currentDayKeystrokes),
+        formatNumber(averages.keystrokes / avgDays),
+    ]);
+    dashboardContent += getRowLabels([
+        "Files changed",
+        formatNumber(Object.keys(fileChangeInfoMap).length),
+        formatNumber(averages.files_changed / avgDays),
+    ]);
+    dashboardContent += "\n";
+
+    // LAST 7 DAYS
+    const weekEntries: DayHistory[] = getHistoryForLastDays(7);
+    const weekSummary: HistorySummary = getHistorySummary(weekEntries);
+    const weekStart = moment().subtract(6, "days").format("MMM Do, YYYY");
+    dashboardContent += getRightAlignedTableHeader(
+        `Last 7 days (${weekStart} to ${todayDate})`
+    );
+    dashboardContent += getColumnHeaders(["Metric", "Total"]);
+    dashboardContent += getRowLabels([
+        "Code time",
+        humanizeMinutes(weekSummary.editor_seconds / 60),
+    ]);
+    dashboardContent += getRowLabels([
+        "Active code time",
+        humanizeMinutes(weekSummary.session_seconds / 60),
+    ]);
+    dashboardContent += getRowLabels([
+        "Lines added",
+        formatNumber(weekSummary.lines_added),
+    ]);
+    dashboardContent += getRowLabels([
+        "Lines removed",
+        formatNumber(weekSummary.lines_removed),
+    ]);
+    dashboardContent += getRowLabels([
+        "Keystrokes",
+        formatNumber(weekSummary.keystrokes),
+    ]);
+    dashboardContent += getRowLabels([
+        "Days coded",
+        formatNumber(weekSummary.days),
+    ]);
+    dashboardContent += "\n";
+
+    // TOP PROJECTS over the last 7 days
+    const projectMap = {};
+    weekEntries.forEach((n: DayHistory) => {
+        const key = n.project.directory;
+        if (!projectMap[key]) {
+            projectMap[key] = { name: n.project.name, session_seconds: 0, keystrokes: 0 };
+        }
+        projectMap[key].session_seconds += n.session_seconds;
+        projectMap[key].keystrokes += n.keystrokes;
+    });
+    const topProjects = Object.keys(projectMap)
+        .map((key) => projectMap[key])
+        .sort((a, b) => b.session_seconds - a.session_seconds)
+        .slice(0, 5);
+    if (topProjects.length) {
+        dashboardContent += getRightAlignedTableHeader("Top projects (last 7 days)");
+        dashboardContent += getColumnHeaders(["Project", "Active code time", "Keystrokes"]);
+        topProjects.forEach((n) => {
+            dashboardContent += getRowLabels([
+                truncateLabel(n.name),
+                humanizeMinutes(n.session_seconds / 60),
+                formatNumber(n.keystrokes),
+            ]);
+        });
+        dashboardContent += "\n";
+    }
+
+    // LANGUAGES today and over the last 7 days
+    dashboardContent += getLanguagesContent(
+        "Languages (today)",
+        getLanguageBreakdown(getHistoryForRange(day, day))
+    );
+    dashboardContent += getLanguagesContent(
+        "Languages (last 7 days)",
+        getLanguageBreakdown(weekEntries)
+    );
+
+    // TOP FILES today
+    const topFiles: FileChangeInfo[] = Object.keys(fileChangeInfoMap)
+        .map((key) => fileChangeInfoMap[key])
+        .sort((a: FileChangeInfo, b: FileChangeInfo) => b.keystrokes - a.keystrokes)
+        .slice(0, 5);
+    if (topFiles.length) {
+        dashboardContent += getRightAlignedTableHeader("Top files (today)");
+        dashboardContent += getColumnHeaders(["File", "Code time", "Keystrokes"]);
+        topFiles.forEach((n: FileChangeInfo) => {
+            dashboardContent += getRowLabels([
+                truncateLabel(n.name),
+                humanizeMinutes(n.duration_seconds / 60),
+                formatNumber(n.keystrokes),
+            ]);
+        });
+        dashboardContent += "\n";
+    }
+
+    // HOURLY ACTIVITY over the last 30 days
+    dashboardContent += getActivityHeatmapContent(getLastThirtyDaysHeatmap());
+
+    // GIT stats for the active project
+    const activeRootPath = findFirstActiveDirectoryOrWorkspaceDirectory();
+    if (activeRootPath && isGitProject(activeRootPath)) {
+        const summary = {
+            activity: await getTodaysCommits(activeRootPath, true),
+            contributorActivity: await getTodaysCommits(activeRootPath, false),
+        };
+        dashboardContent += getRightAlignedTableHeader(`Git (${path.basename(activeRootPath)})`);
+        dashboardContent += getColumnHeaders(["Today", "You", "All Contributors"]);
+        dashboardContent += getRowNumberData(summary, "Commits", "commitCount");
+        dashboardContent += getRowNumberData(summary, "Files changed", "fileCount");
+        dashboardContent += getRowNumberData(summary, "Insertions", "insertions");
+        dashboardContent += getRowNumberData(summary, "Deletions", "deletions");
+        dashboardContent += "\n";
+    }
+
+    fileIt.writeContentFileSync(getDashboardFile(), dashboardContent);
+}
+
+function getLastThirtyDaysHeatmap(): ActivityHeatmap {
+    const { day } = getNowTimes();
+    const startDay = moment().subtract(29, "days").format("YYYY-MM-DD");
+    return getActivityHeatmap(startDay, day);
+}
+
+/**
+ * Returns the heatmap as a text grid with a row per day of the week
+ * and a column per hour. The shade of a cell shows the active minutes
+ * relative to the busiest hour.
+ * @param heatmap
+ */
+export function getActivityHeatmapContent(heatmap: ActivityHeatmap) {
+    const shades = [" ", "\u2591", "\u2592", "\u2593", "\u2588"];
+    let max = 0;
+    heatmap.minutes.forEach((hours) => {
+        max = Math.max(max, ...hours);
+    });
+
+    const startStr = moment(heatmap.start_day, "YYYY-MM-DD").format("MMM Do, YYYY");
+    const endStr = moment(heatmap.end_day, "YYYY-MM-DD").format("MMM Do, YYYY");
+    let content = getRightAlignedTableHeader(`Hourly activity (${startStr} to ${endStr})`);
+    if (!max) {
+        content += "No activity was found for this range.\n\n";
+        return content;
+    }
+
+    // hour labels every 3 hours
+    let header = "     ";
+    for (let hour = 0; hour < 24; hour++) {
+        header += hour % 3 === 0 ? `${hour}  `.substring(0, 3) : "   ";
+    }
+    content += `${header.replace(/\s+$/, "")}\n`;
+
+    for (let day = 0; day < 7; day++) {
+        let row = `${moment().day(day).format("ddd")}  `;
+        heatmap.minutes[day].forEach((minutes) => {
+            const level = minutes > 0 ? Math.ceil((minutes / max) * (shades.length - 1)) : 0;
+            row += `${shades[level]}${shades[level]} `;
+        });
+        content += `${row.replace(/\s+$/, "")}\n`;
+    }
+
+    // find the hour with the most active minutes
+    let busiestDay = 0;
+    let busiestHour = 0;
+    heatmap.minutes.forEach((hours, day) => {
+        hours.forEach((minutes, hour) => {
+            if (minutes > heatmap.minutes[busiestDay][busiestHour]) {
+                busiestDay = day;
+                busiestHour = hour;
+            }
+        });
+    });
+    const busiestStr = moment().day(busiestDay).hour(busiestHour).format("dddd ha");
+    content += `\nLess ${shades.slice(1).join("")} More. Busiest hour: ${busiestStr} (${humanizeMinutes(max)})\n\n`;
+    return content;
+}
+
+// keep the label within the first column of the dashboard tables
+function truncateLabel(label: string) {
+    const maxLen = DASHBOARD_COL_WIDTH - 2;
+    if (!label || label.length <= maxLen) {
+        return label || "";
+    }
+    return `${label.substring(0, maxLen - 3)}...`;
+}
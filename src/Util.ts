@@ -42,10 +42,14 @@ export const TABLE_WIDTH = 80;
 export const MARKER_WIDTH = 4;
 
 const NUMBER_IN_EMAIL_REGEX = new RegExp("^\\d+\\+");
+const GIT_DATA_PREFERENCE_TTL_MILLIS = 1000 * 60;
 const dayFormat = "YYYY-MM-DD";
 const dayTimeFormat = "LLLL";
 
 let showStatusBarText = true;
+// the disableGitData account preference and when it was read from the session file
+let gitDataPreference: boolean = false;
+let gitDataPreferenceReadAt: number = 0;
 let extensionName = null;
 let workspace_name = null;
 
@@ -68,20 +72,174 @@ export function getPluginType() {
     return CODE_TIME_TYPE;
 }
 
+/**
+ * The API base url. Can be set to a self-hosted or local Code Time
+ * backend using the "codetime.apiEndpoint" setting.
+ */
+export function getApiEndpoint(): string {
+    return getUrlSetting("apiEndpoint", api_endpoint);
+}
+
+/**
+ * The web app url used for the login and dashboard links
+ */
+export function getWebAppUrl(): string {
+    return getUrlSetting("webAppUrl", launch_url);
+}
+
+/**
+ * The host the tracker events are sent to, defaults to the API endpoint
+ */
+export function getTrackerHost(): string {
+    return getUrlSetting("trackerHost", getApiEndpoint());
+}
+
+/**
+ * Local-only mode keeps all of the data in the ~/.software files
+ * and never makes a request to the Code Time server.
+ */
+export function isLocalOnlyMode(): boolean {
+    return !!workspace.getConfiguration("codetime").get("localOnly");
+}
+
+function getUrlSetting(key: string, defaultUrl: string): string {
+    const url: string = workspace.getConfiguration("codetime").get(key);
+    if (!url || !url.trim()) {
+        return defaultUrl;
+    }
+    // remove the trailing slashes, the api paths start with one
+    return url.trim().replace(/\/+$/, "");
+}
+
 export function getVersion() {
     const extension = extensions.getExtension(CODE_TIME_EXT_ID);
     return extension.packageJSON.version;
 }
 
+/**
+ * Returns true if git data collection is turned off, either by the
+ * account preference or the codetime.disableGitData setting. The
+ * preference is kept in the session file so it's shared by every window,
+ * it's read again once a minute.
+ */
+export function isGitDataDisabled(): boolean {
+    if (workspace.getConfiguration("codetime").get("disableGitData")) {
+        return true;
+    }
+    const now = Date.now();
+    if (now - gitDataPreferenceReadAt > GIT_DATA_PREFERENCE_TTL_MILLIS) {
+        gitDataPreference = !!getItem("disableGitData");
+        gitDataPreferenceReadAt = now;
+    }
+    return gitDataPreference;
+}
+
+/**
+ * Every git lookup checks this first, it returns false for all
+ * projects when git data collection is turned off
+ * @param projectDir the root of a repo, use getGitRootForFile to find the repo of a file
+ */
 export function isGitProject(projectDir) {
-    if (!projectDir) {
+    if (!projectDir || isGitDataDisabled()) {
         return false;
     }
+    return fs.existsSync(path.join(projectDir, ".git"));
+}
 
-    if (!fs.existsSync(path.join(projectDir, ".git"))) {
-        return false;
+/**
+ * Returns the git directory of the repo root. Worktrees and submodules
+ * have a ".git" file with a "gitdir: <path>" line instead of a directory.
+ * @param repoRoot
+ */
+export function getGitDir(repoRoot: string): string {
+    const dotGit = path.join(repoRoot, ".git");
+    try {
+        if (!fs.existsSync(dotGit)) {
+            return null;
+        }
+        if (fs.statSync(dotGit).isDirectory()) {
+            return dotGit;
+        }
+        const match = fs.readFileSync(dotGit, "utf8").match(/^gitdir:\s*(.+)$/m);
+        if (match) {
+            const gitDir = path.resolve(repoRoot, match[1].trim());
+            if (fs.existsSync(gitDir)) {
+                return gitDir;
+            }
+        }
+    } catch (e) {
+        logIt(`Unable to read ${dotGit}: ${e.message}`);
     }
-    return true;
+    return null;
+}
+
+/**
+ * Returns the root of the nearest repo that contains the file or directory,
+ * so a file in a submodule belongs to the submodule and not the outer repo
+ * @param fsPath
+ */
+export function getGitRootForFile(fsPath: string): string {
+    if (!fsPath || isGitDataDisabled()) {
+        return null;
+    }
+    let dir = fsPath;
+    if (!fs.existsSync(dir) || !fs.statSync(dir).isDirectory()) {
+        dir = path.dirname(dir);
+    }
+    while (dir) {
+        if (getGitDir(dir)) {
+            return dir;
+        }
+        const parentDir = path.dirname(dir);
+        if (parentDir === dir) {
+            // reached the file system root
+            break;
+        }
+        dir = parentDir;
+    }
+    return null;
+}
+
+/**
+ * Returns "worktree", "submodule" or "repo" based on where the git directory is
+ * @param repoRoot
+ */
+export function getGitRepoType(repoRoot: string): string {
+    const gitDir = getGitDir(repoRoot);
+    if (!gitDir) {
+        return null;
+    }
+    const normalizedDir = gitDir.replace(/\\/g, "/");
+    if (/\/worktrees\/[^/]+\/?$/.test(normalizedDir)) {
+        return "worktree";
+    }
+    if (/\.git\/modules\//.test(normalizedDir)) {
+        return "submodule";
+    }
+    return "repo";
+}
+
+/**
+ * Reads the checked out branch from the HEAD file, so it's never stale
+ * like the cached resource info. A detached HEAD returns the short commit id.
+ * @param repoRoot
+ */
+export function getHeadBranch(repoRoot: string): string {
+    const gitDir = repoRoot ? getGitDir(repoRoot) : null;
+    if (!gitDir) {
+        return "";
+    }
+    try {
+        const head = fs.readFileSync(path.join(gitDir, "HEAD"), "utf8").trim();
+        const match = head.match(/^ref:\s*refs\/heads\/(.+)$/);
+        if (match) {
+            return match[1];
+        }
+        return /^[0-9a-f]{7,}$/i.test(head) ? head.substring(0, 7) : "";
+    } catch (e) {
+        logIt(`Unable to read the HEAD of ${repoRoot}: ${e.message}`);
+    }
+    return "";
 }
 
 /**
@@ -256,6 +414,10 @@ export function getProjectFolder(fileName): WorkspaceFolder {
 
 export function setItem(key, value) {
     fileIt.setJsonValue(getSoftwareSessionFile(), key, value);
+    if (key === "disableGitData") {
+        // read the new preference on the next check
+        gitDataPreferenceReadAt = 0;
+    }
 }
 
 export function getItem(key) {
@@ -424,6 +586,10 @@ export function getTimeCounterFile() {
     return getFile("timeCounter.json");
 }
 
+export function getOutboxFile() {
+    return getFile("outbox.json");
+}
+
 export function getDashboardFile() {
     return getFile("CodeTime.txt");
 }
@@ -448,6 +614,30 @@ export function getDailyReportSummaryFile() {
     return getFile("DailyReportSummary.txt");
 }
 
+export function getStandupFile() {
+    return getFile("Standup.md");
+}
+
+export function getTimesheetCsvFile() {
+    return getFile("Timesheet.csv");
+}
+
+export function getTimesheetJsonFile() {
+    return getFile("Timesheet.json");
+}
+
+export function getTicketReportFile() {
+    return getFile("TicketReport.txt");
+}
+
+export function getTicketCsvFile() {
+    return getFile("TicketWorklog.csv");
+}
+
+export function getContributorAliasFile() {
+    return getFile("contributorAliases.json");
+}
+
 export function getSoftwareDir(autoCreate = true) {
     const homedir = os.homedir();
     let softwareDataDir = homedir;
@@ -654,9 +844,10 @@ export function normalizeGithubEmail(email: string, filterOutNonEmails = true) {
         } else {
             const found = email.match(NUMBER_IN_EMAIL_REGEX);
             if (found && email.includes("users.noreply")) {
-                // filter out the ones that look like
-                // 2342353345+username@users.noreply.github.com"
-                return null;
+                // merge the ones that look like
+                // 2342353345+username@users.noreply.github.com
+                // with username@users.noreply.github.com
+                return email.replace(NUMBER_IN_EMAIL_REGEX, "");
             }
         }
     }
@@ -754,7 +945,9 @@ export async function buildLoginUrl(loginType: string) {
     const auth_callback_state = uuidv4();
     setAuthCallbackState(auth_callback_state);
 
-    let loginUrl = launch_url;
+    const webAppUrl = getWebAppUrl();
+    const apiEndpoint = getApiEndpoint();
+    let loginUrl = webAppUrl;
 
     let obj = {
         plugin: getPluginType(),
@@ -766,17 +959,17 @@ export async function buildLoginUrl(loginType: string) {
 
     if (loginType === "github") {
         // github signup/login flow
-        obj["redirect"] = launch_url;
-        loginUrl = `${api_endpoint}/auth/github`;
+        obj["redirect"] = webAppUrl;
+        loginUrl = `${apiEndpoint}/auth/github`;
     } else if (loginType === "google") {
         // google signup/login flow
-        obj["redirect"] = launch_url;
-        loginUrl = `${api_endpoint}/auth/google`;
+        obj["redirect"] = webAppUrl;
+        loginUrl = `${apiEndpoint}/auth/google`;
     } else {
         obj["token"] = getItem("jwt");
         obj["auth"] = "software";
         // never onboarded, show the "email" signup view
-        loginUrl = `${launch_url}/email-signup`;
+        loginUrl = `${webAppUrl}/email-signup`;
     }
 
     const qryStr = queryString.stringify(obj);
@@ -788,6 +981,12 @@ export function showInformationMessage(message: string) {
     return window.showInformationMessage(`${message}`);
 }
 
+export function showLocalOnlyModeMessage() {
+    return window.showInformationMessage(
+        "This feature requires the Code Time server and is disabled in local-only mode."
+    );
+}
+
 export function showWarningMessage(message: string) {
     return window.showWarningMessage(`${message}`);
 }
@@ -21,6 +21,17 @@ export class CacheManager {
         return this.myCache.get(key);
     }
 
+    /**
+     * Removes the entries with a key that matches
+     * @param matcher
+     */
+    deleteMatching(matcher: (key: string) => boolean) {
+        const keys: string[] = this.myCache.keys().filter(matcher);
+        if (keys.length) {
+            this.myCache.del(keys);
+        }
+    }
+
     set(key: string, value: any, ttl: number = -1) {
         if (ttl > 0) {
             this.myCache.set(key, value, ttl);
@@ -1,4 +1,4 @@
-import { commands, Disposable, workspace, window, TreeView } from "vscode";
+import { commands, Disposable, workspace, window, TreeView, Uri } from "vscode";
 import {
     launchWebDashboard,
     updatePreferences
@@ -12,6 +12,9 @@ import {
     openFileInEditor,
     displayReadmeIfNotExists,
     toggleStatusBar,
+    getApiEndpoint,
+    isLocalOnlyMode,
+    showLocalOnlyModeMessage,
 } from "./Util";
 import { KpmManager } from "./managers/KpmManager";
 import { KpmProvider, connectKpmTreeView } from "./tree/KpmProvider";
@@ -26,13 +29,21 @@ import {
     CodeTimeTeamProvider,
     connectCodeTimeTeamTreeView,
 } from "./tree/CodeTimeTeamProvider";
-import { displayProjectContributorCommitsDashboard } from "./menu/ReportManager";
+import {
+    displayProjectContributorCommitsDashboard,
+    displayStandupReport,
+    displayPrivacyPreview,
+} from "./menu/ReportManager";
 import {
     showExistingAccountMenu,
     showSwitchAccountsMenu,
 } from "./menu/AccountManager";
 import { TrackerManager } from "./managers/TrackerManager";
 import { getStatusBarKpmItem } from "./storage/SessionSummaryData";
+import { OutboxManager } from "./managers/OutboxManager";
+import { DashboardManager } from "./menu/DashboardManager";
+import { IgnoreManager } from "./managers/IgnoreManager";
+import { CommitTrailerManager } from "./managers/CommitTrailerManager";
 
 export function createCommands(
     kpmController: KpmManager
@@ -70,6 +81,10 @@ export function createCommands(
     // SWITCH ACCOUNT BUTTON
     cmds.push(
         commands.registerCommand("codetime.switchAccounts", (item: KpmItem) => {
+            if (isLocalOnlyMode()) {
+                showLocalOnlyModeMessage();
+                return;
+            }
             tracker.trackUIInteraction(item);
             showSwitchAccountsMenu();
         })
@@ -124,6 +139,10 @@ export function createCommands(
     // SHOW WEB ANALYTICS
     cmds.push(
         commands.registerCommand("codetime.softwareKpmDashboard", (item: KpmItem) => {
+            if (isLocalOnlyMode()) {
+                showLocalOnlyModeMessage();
+                return;
+            }
             if (!item) {
                 // it's from the command palette, create a kpm item so
                 // it can build the ui_element in the tracker manager
@@ -170,6 +189,10 @@ export function createCommands(
     // LAUNCH EMAIL LOGIN
     cmds.push(
         commands.registerCommand("codetime.codeTimeLogin", (item: KpmItem, switching_account: boolean) => {
+            if (isLocalOnlyMode()) {
+                showLocalOnlyModeMessage();
+                return;
+            }
             if (!item) {
                 // it's from the command palette, create a kpm item so
                 // it can build the ui_element in the tracker manager
@@ -187,6 +210,10 @@ export function createCommands(
     // LAUNCH EXISTING ACCOUNT LOGIN
     cmds.push(
         commands.registerCommand("codetime.codeTimeExisting", (item: KpmItem, switching_account: boolean) => {
+            if (isLocalOnlyMode()) {
+                showLocalOnlyModeMessage();
+                return;
+            }
             if (!item) {
                 // it's from the command palette, create a kpm item so
                 // it can build the ui_element in the tracker manager
@@ -205,6 +232,10 @@ export function createCommands(
     // LAUNCH GOOGLE LOGIN
     cmds.push(
         commands.registerCommand("codetime.googleLogin", (item: KpmItem, switching_account: boolean) => {
+            if (isLocalOnlyMode()) {
+                showLocalOnlyModeMessage();
+                return;
+            }
             if (!item) {
                 // it's from the command palette, create a kpm item so
                 // it can build the ui_element in the tracker manager
@@ -223,6 +254,10 @@ export function createCommands(
     // LAUNCH GITHUB LOGIN
     cmds.push(
         commands.registerCommand("codetime.githubLogin", (item: KpmItem, switching_account: boolean) => {
+            if (isLocalOnlyMode()) {
+                showLocalOnlyModeMessage();
+                return;
+            }
             if (!item) {
                 // it's from the command palette, create a kpm item so
                 // it can build the ui_element in the tracker manager
@@ -283,9 +318,31 @@ export function createCommands(
         })
     );
 
+    // DISPLAY THE DASHBOARD WEBVIEW
+    cmds.push(
+        commands.registerCommand("codetime.viewDashboard", (item: KpmItem) => {
+            if (!item) {
+                // it's from the command palette, create a kpm item so
+                // it can build the ui_element in the tracker manager
+                item = kpmProviderMgr.getDashboardButton();
+                item.location = "ct_command_palette";
+                item.interactionType = UIInteractionType.Keyboard;
+                item.name = "ct_dashboard_cmd";
+                item.interactionIcon = null;
+                item.color = null;
+            }
+            tracker.trackUIInteraction(item);
+            DashboardManager.getInstance().showDashboard();
+        })
+    );
+
     // DISPLAY PROJECT METRICS REPORT
     cmds.push(
         commands.registerCommand("codetime.generateProjectSummary", (item: KpmItem) => {
+            if (isLocalOnlyMode()) {
+                showLocalOnlyModeMessage();
+                return;
+            }
             if (!item) {
                 // it's from the command palette, create a kpm item so
                 // it can build the ui_element in the tracker manager
@@ -301,6 +358,55 @@ export function createCommands(
         })
     );
 
+    // DISPLAY DAILY REPORT
+    cmds.push(
+        commands.registerCommand("codetime.generateDailyReport", () => {
+            ProjectCommitManager.getInstance().launchDailyReportMenuFlow();
+        })
+    );
+
+    // EXPORT THE TIMESHEET
+    cmds.push(
+        commands.registerCommand("codetime.exportTimesheet", () => {
+            ProjectCommitManager.getInstance().launchTimesheetMenuFlow();
+        })
+    );
+
+    // DISPLAY THE TIME PER TICKET
+    cmds.push(
+        commands.registerCommand("codetime.generateTicketReport", () => {
+            ProjectCommitManager.getInstance().launchTicketReportMenuFlow();
+        })
+    );
+
+    // EXPORT THE TIME PER TICKET
+    cmds.push(
+        commands.registerCommand("codetime.exportTicketWorklog", () => {
+            ProjectCommitManager.getInstance().launchTicketExportMenuFlow();
+        })
+    );
+
+    // ADD THE CODE-TIME TRAILER TO THE COMMIT MESSAGE
+    cmds.push(
+        commands.registerCommand("codetime.addCommitTrailer", (sourceControl) => {
+            CommitTrailerManager.getInstance().addTrailerToCommitMessage(sourceControl);
+        })
+    );
+
+    // INSTALL THE PREPARE-COMMIT-MSG HOOK
+    cmds.push(
+        commands.registerCommand("codetime.installCommitHook", () => {
+            CommitTrailerManager.getInstance().installCommitHook();
+        })
+    );
+
+    // GENERATE THE STANDUP NOTE
+    cmds.push(
+        commands.registerCommand("codetime.generateStandup", () => {
+            displayStandupReport();
+        })
+    );
+
     // DISPLAY REPO COMMIT CONTRIBUTOR REPORT
     cmds.push(
         commands.registerCommand(
@@ -331,9 +437,46 @@ export function createCommands(
         })
     );
 
+    // SHOW THE OFFLINE OUTBOX STATUS
+    cmds.push(
+        commands.registerCommand("codetime.showOutboxStatus", () => {
+            const outboxMgr: OutboxManager = OutboxManager.getInstance();
+            const queueDepth = outboxMgr.getQueueDepth();
+            const dropped = outboxMgr.getDroppedCount();
+            let msg = queueDepth
+                ? `${queueDepth} payload(s) are queued and will be sent once the server is available.`
+                : "All payloads have been sent.";
+            if (dropped) {
+                msg += ` ${dropped} payload(s) were dropped because the outbox was full.`;
+            }
+            window.showInformationMessage(msg);
+            if (queueDepth) {
+                outboxMgr.flush();
+            }
+        })
+    );
+
+    // ADD THE FILE OR FOLDER TO .codetimeignore
+    cmds.push(
+        commands.registerCommand("codetime.ignoreFile", (uri: Uri) => {
+            IgnoreManager.getInstance().ignoreResource(uri);
+        })
+    );
+
+    // PREVIEW THE EVENTS WITH THE PRIVACY MODE APPLIED
+    cmds.push(
+        commands.registerCommand("codetime.previewPrivacy", () => {
+            displayPrivacyPreview();
+        })
+    );
+
     cmds.push(
         commands.registerCommand("codetime.viewSoftwareTop40", () => {
-            launchWebUrl("https://api.software.com/music/top40");
+            if (isLocalOnlyMode()) {
+                showLocalOnlyModeMessage();
+                return;
+            }
+            launchWebUrl(`${getApiEndpoint()}/music/top40`);
         })
     );
 
@@ -351,7 +494,37 @@ export function createCommands(
         })
     );
 
-    cmds.push(workspace.onDidChangeConfiguration((e) => updatePreferences()));
+    cmds.push(workspace.onDidChangeConfiguration((e) => {
+        if (
+            e.affectsConfiguration("codetime.apiEndpoint") ||
+            e.affectsConfiguration("codetime.trackerHost")
+        ) {
+            // point the tracker at the new host
+            tracker.init();
+        }
+        if (e.affectsConfiguration("codetime.localOnly")) {
+            tracker.init();
+            commands.executeCommand("codetime.refreshTreeViews");
+            if (!isLocalOnlyMode()) {
+                // the session and account data is fetched during activation
+                window
+                    .showInformationMessage(
+                        "Local-only mode is off. Reload the window to connect to Code Time.",
+                        "Reload Window"
+                    )
+                    .then((selection) => {
+                        if (selection === "Reload Window") {
+                            commands.executeCommand("workbench.action.reloadWindow");
+                        }
+                    });
+            }
+        }
+        if (e.affectsConfiguration("codetime.disableGitData")) {
+            // show or hide the git nodes
+            commands.executeCommand("codetime.refreshTreeViews");
+        }
+        updatePreferences();
+    }));
 
     return Disposable.from(...cmds);
 }
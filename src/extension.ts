@@ -30,6 +30,9 @@ import {
 } from "./storage/SessionSummaryData";
 import { WallClockManager } from "./managers/WallClockManager";
 import { TrackerManager } from "./managers/TrackerManager";
+import { OutboxManager } from "./managers/OutboxManager";
+import { IgnoreManager } from "./managers/IgnoreManager";
+import { GitWatchManager } from "./managers/GitWatchManager";
 
 let TELEMETRY_ON = true;
 let statusBarItem = null;
@@ -77,6 +80,9 @@ export function deactivate(ctx: ExtensionContext) {
     // dispose the new day timer
     PluginDataManager.getInstance().dispose();
     WallClockManager.getInstance().dispose();
+    OutboxManager.getInstance().dispose();
+    IgnoreManager.getInstance().dispose();
+    GitWatchManager.getInstance().dispose();
 
     clearInterval(liveshare_update_interval);
 
@@ -131,6 +137,12 @@ export async function intializePlugin(
     // initialize the wall clock timer
     WallClockManager.getInstance();
 
+    // send any payloads that were queued while offline
+    OutboxManager.getInstance();
+
+    // refresh the git data when a repo changes
+    GitWatchManager.getInstance();
+
     // add the interval jobs
     initializeIntervalJobs();
 
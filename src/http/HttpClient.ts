@@ -1,6 +1,5 @@
 import axios from "axios";
 
-import { api_endpoint } from "../Constants";
 import { resetDataAndAlertUser } from "../menu/AccountManager";
 
 import {
@@ -10,14 +9,22 @@ import {
     getVersion,
     getOs,
     getOffsetSeconds,
+    getApiEndpoint,
+    isLocalOnlyMode,
 } from "../Util";
 
 // build the axios api base url
 const beApi = axios.create({
-    baseURL: `${api_endpoint}`,
+    baseURL: getApiEndpoint(),
     timeout: 15000
 });
 
+// use the latest api endpoint setting for every request
+beApi.interceptors.request.use((config) => {
+    config.baseURL = getApiEndpoint();
+    return config;
+});
+
 beApi.defaults.headers.common["X-SWDC-Plugin-Id"] = getPluginId();
 beApi.defaults.headers.common["X-SWDC-Plugin-Name"] = getPluginName();
 beApi.defaults.headers.common["X-SWDC-Plugin-Version"] = getVersion();
@@ -61,6 +68,9 @@ export async function spotifyApiPut(api, payload, accessToken) {
  */
 
 export async function softwareGet(api, jwt) {
+    if (isLocalOnlyMode()) {
+        return getLocalOnlyModeError(api);
+    }
     if (jwt) {
         beApi.defaults.headers.common["Authorization"] = jwt;
     }
@@ -79,6 +89,9 @@ export async function softwareGet(api, jwt) {
  * perform a put request
  */
 export async function softwarePut(api, payload, jwt) {
+    if (isLocalOnlyMode()) {
+        return getLocalOnlyModeError(api);
+    }
     // PUT the kpm to the PluginManager
     beApi.defaults.headers.common["Authorization"] = jwt;
 
@@ -101,6 +114,9 @@ export async function softwarePut(api, payload, jwt) {
  * perform a post request
  */
 export async function softwarePost(api, payload, jwt = null) {
+    if (isLocalOnlyMode()) {
+        return getLocalOnlyModeError(api);
+    }
     // POST the kpm to the PluginManager
     if (jwt) {
         beApi.defaults.headers.common["Authorization"] = jwt;
@@ -124,6 +140,9 @@ export async function softwarePost(api, payload, jwt = null) {
  * perform a delete request
  */
 export async function softwareDelete(api, jwt) {
+    if (isLocalOnlyMode()) {
+        return getLocalOnlyModeError(api);
+    }
     beApi.defaults.headers.common["Authorization"] = jwt;
     return beApi
         .delete(api)
@@ -142,6 +161,14 @@ export async function softwareDelete(api, jwt) {
         });
 }
 
+/**
+ * Returned in place of a response when local-only mode is on,
+ * it doesn't have a status so isResponseOk will return false
+ */
+function getLocalOnlyModeError(api) {
+    return new Error(`${api} is not available in local-only mode`);
+}
+
 /**
  * Check if the spotify response has an expired token
  * {"error": {"status": 401, "message": "The access token expired"}}
@@ -0,0 +1,266 @@
+import { window, extensions } from "vscode";
+import { humanizeMinutes, getGitRootForFile, isGitDataDisabled, logIt } from "../Util";
+import { getCommandResultString, getHeadCommitId, getWorkspaceRepos } from "../repo/GitUtil";
+import { getCodeTimeSecondsByFile, getStagedCodeTimeSeconds } from "../storage/CommitTimeData";
+import GitRepo from "../model/GitRepo";
+
+const fs = require("fs");
+const path = require("path");
+
+export const TRAILER_KEY = "Code-Time";
+// the hook reads the code time of each file since HEAD from this file in the git directory
+const FILE_TIMES_FILE = "codetime-files";
+// marks the prepare-commit-msg hooks that were installed by Code Time
+const HOOK_MARKER = "# installed by Code Time";
+
+// the staged files are only known when the commit is made, the hook totals
+// their seconds. The first line of the times file is the HEAD they start at.
+const HOOK_SCRIPT = `#!/bin/sh
+${HOOK_MARKER}, adds the ${TRAILER_KEY} trailer to the commit message
+# skip merges, squashes and the amends of existing commits
+case "$2" in
+  merge|squash|commit) exit 0 ;;
+esac
+times_file="$(git rev-parse --git-path ${FILE_TIMES_FILE})"
+if [ ! -s "$times_file" ] || grep -q "^${TRAILER_KEY}:" "$1"; then
+  exit 0
+fi
+# the times are stale once there's a new commit
+if [ "$(head -n 1 "$times_file")" != "$(git rev-parse -q --verify HEAD)" ]; then
+  exit 0
+fi
+code_time="$(git -c core.quotePath=false diff --cached --name-only | awk -F '\t' '
+  FILENAME == "-" { staged[tolower($0)] = 1; next }
+  FNR > 1 && (tolower($2) in staged) { seconds += $1 }
+  END {
+    min = int(seconds / 60)
+    if (min == 1) print "1 min"
+    else if (min > 1 && min < 60) print min " min"
+    else if (min == 60) print "1 hr"
+    else if (min > 60) { hrs = int(min / 6); if (hrs * 6 < min) hrs++; printf "%.1f hrs", hrs / 10 }
+  }' - "$times_file")"
+if [ -n "$code_time" ]; then
+  git interpret-trailers --in-place --trailer "${TRAILER_KEY}: $code_time" "$1"
+fi
+`;
+
+/**
+ * Adds a "Code-Time: 1.4 hrs" trailer to the commit message, the active
+ * code time spent on the staged files since the previous commit. It's
+ * either added to the SCM input box or by a prepare-commit-msg hook that
+ * reads the trailer the extension keeps up to date in the git directory.
+ */
+export class CommitTrailerManager {
+  private static instance: CommitTrailerManager;
+
+  // the resolved git paths of each repo root, git only runs once per repo
+  private gitPaths = {};
+
+  private constructor() { }
+
+  static getInstance(): CommitTrailerManager {
+    if (!CommitTrailerManager.instance) {
+      CommitTrailerManager.instance = new CommitTrailerManager();
+    }
+
+    return CommitTrailerManager.instance;
+  }
+
+  /**
+   * Returns the trailer of the staged files, or an empty string if
+   * there's no code time on them
+   * @param repoDir
+   */
+  async getTrailer(repoDir: string): Promise<string> {
+    const seconds = await getStagedCodeTimeSeconds(repoDir);
+    if (seconds < 60) {
+      return "";
+    }
+    return `${TRAILER_KEY}: ${humanizeMinutes(seconds / 60)}`;
+  }
+
+  /**
+   * Appends the trailer to the SCM commit message of the repo that was
+   * selected in the source control view, or of every repo
+   * @param sourceControl the source control passed in by the scm/title menu
+   */
+  async addTrailerToCommitMessage(sourceControl?: any) {
+    const gitApi = this.getGitApi();
+    if (!gitApi) {
+      window.showWarningMessage("The Git extension is not available to update the commit message.");
+      return;
+    }
+
+    let repositories: any[] = gitApi.repositories || [];
+    if (sourceControl && sourceControl.rootUri) {
+      repositories = repositories.filter((repo) => repo.rootUri.fsPath === sourceControl.rootUri.fsPath);
+    }
+
+    let updated = 0;
+    for (let i = 0; i < repositories.length; i++) {
+      const repo = repositories[i];
+      const trailer = await this.getTrailer(repo.rootUri.fsPath);
+      if (trailer) {
+        repo.inputBox.value = appendTrailer(repo.inputBox.value, trailer);
+        updated++;
+      }
+    }
+    if (!updated) {
+      window.showInformationMessage("There's no code time on the staged files since the last commit.");
+    }
+  }
+
+  /**
+   * Installs the prepare-commit-msg hook in the selected workspace repo.
+   * A hook that wasn't installed by Code Time is never replaced.
+   */
+  async installCommitHook() {
+    if (isGitDataDisabled()) {
+      window.showInformationMessage("Git data is turned off with the codetime.disableGitData setting.");
+      return;
+    }
+
+    const repos: GitRepo[] = getWorkspaceRepos();
+    if (!repos.length) {
+      window.showInformationMessage("There isn't a git repository in the workspace.");
+      return;
+    }
+
+    let repo: GitRepo = repos[0];
+    if (repos.length > 1) {
+      const pick = await window.showQuickPick(
+        repos.map((n: GitRepo) => ({ label: n.name, description: n.directory, repo: n })),
+        { placeHolder: "Select the repository to add the Code-Time commit hook to" }
+      );
+      if (!pick) {
+        return;
+      }
+      repo = pick.repo;
+    }
+
+    // core.hooksPath may have changed since the paths were resolved
+    this.gitPaths = {};
+    const hookFile = await this.getHookFile(repo.directory);
+    if (!hookFile) {
+      window.showErrorMessage(`Unable to find the git hooks directory of ${repo.name}.`);
+      return;
+    }
+    if (fs.existsSync(hookFile) && !this.isCodeTimeHook(hookFile)) {
+      window.showWarningMessage(
+        `${repo.name} already has a prepare-commit-msg hook. Add the ${TRAILER_KEY} trailer from the source control view instead.`
+      );
+      return;
+    }
+
+    try {
+      fs.mkdirSync(path.dirname(hookFile), { recursive: true });
+      fs.writeFileSync(hookFile, HOOK_SCRIPT, { mode: 0o755 });
+    } catch (e) {
+      logIt(`Unable to install the commit hook: ${e.message}`);
+      window.showErrorMessage(`Unable to install the commit hook: ${e.message}`);
+      return;
+    }
+    await this.updateTrailerFile(repo.directory);
+    window.showInformationMessage(`The ${TRAILER_KEY} trailer will be added to the commits of ${repo.name}.`);
+  }
+
+  /**
+   * Writes the code time of each file since HEAD for the hook to total
+   * the staged files with. It's skipped for the repos that don't have
+   * the hook installed, the hooks of older versions are updated.
+   * @param repoDir
+   */
+  async updateTrailerFile(repoDir: string) {
+    const repoRoot = getGitRootForFile(repoDir);
+    if (!repoRoot) {
+      return;
+    }
+    const hookFile = await this.getHookFile(repoRoot);
+    if (!hookFile || !fs.existsSync(hookFile) || !this.isCodeTimeHook(hookFile)) {
+      // most repos don't have the hook, the file times aren't needed
+      return;
+    }
+    const timesFile = await this.getGitPath(repoRoot, FILE_TIMES_FILE);
+    if (!timesFile) {
+      return;
+    }
+    // read the HEAD before the times, a commit in between makes them stale for the hook
+    const headId = await getHeadCommitId(repoRoot);
+    const secondsByFile = await getCodeTimeSecondsByFile(repoRoot);
+    const lines: string[] = [headId];
+    Object.keys(secondsByFile).forEach((fsPath) => {
+      const relativePath = path.relative(repoRoot, fsPath).replace(/\\/g, "/");
+      if (secondsByFile[fsPath] > 0 && !relativePath.startsWith("../")) {
+        lines.push(`${secondsByFile[fsPath]}\t${relativePath}`);
+      }
+    });
+    try {
+      if (fs.readFileSync(hookFile, "utf8") !== HOOK_SCRIPT) {
+        fs.writeFileSync(hookFile, HOOK_SCRIPT, { mode: 0o755 });
+      }
+      fs.writeFileSync(timesFile, `${lines.join("\n")}\n`);
+    } catch (e) {
+      logIt(`Unable to write the commit hook file times: ${e.message}`);
+    }
+  }
+
+  /**
+   * Keeps the file times of the workspace repos current while you code
+   */
+  async updateTrailerFiles() {
+    if (isGitDataDisabled()) {
+      return;
+    }
+    const repos: GitRepo[] = getWorkspaceRepos();
+    for (let i = 0; i < repos.length; i++) {
+      await this.updateTrailerFile(repos[i].directory);
+    }
+  }
+
+  private getGitApi() {
+    const gitExtension = extensions.getExtension("vscode.git");
+    if (!gitExtension || !gitExtension.isActive) {
+      return null;
+    }
+    try {
+      return gitExtension.exports.getAPI(1);
+    } catch (e) {
+      logIt(`Unable to get the git extension api: ${e.message}`);
+    }
+    return null;
+  }
+
+  // core.hooksPath and worktrees change where the hooks are
+  private async getHookFile(repoRoot: string): Promise<string> {
+    const hooksDir = await this.getGitPath(repoRoot, "hooks");
+    return hooksDir ? path.join(hooksDir, "prepare-commit-msg") : null;
+  }
+
+  private async getGitPath(repoRoot: string, name: string): Promise<string> {
+    const key = `${repoRoot}|${name}`;
+    if (this.gitPaths[key] === undefined) {
+      const gitPath = await getCommandResultString(["rev-parse", "--git-path", name], repoRoot);
+      this.gitPaths[key] = gitPath ? path.resolve(repoRoot, gitPath.trim()) : null;
+    }
+    return this.gitPaths[key];
+  }
+
+  private isCodeTimeHook(hookFile: string): boolean {
+    try {
+      return fs.readFileSync(hookFile, "utf8").indexOf(HOOK_MARKER) !== -1;
+    } catch (e) {
+      return false;
+    }
+  }
+}
+
+/**
+ * Replaces an existing Code-Time trailer or adds it after a blank line
+ * @param message
+ * @param trailer
+ */
+function appendTrailer(message: string, trailer: string): string {
+  const lines = (message || "").split(/\r?\n/).filter((line) => line.indexOf(`${TRAILER_KEY}:`) !== 0);
+  const body = lines.join("\n").replace(/\s+$/, "");
+  return `${body}\n\n${trailer}`;
+}
@@ -0,0 +1,201 @@
+import { workspace, commands, Disposable, RelativePattern, FileSystemWatcher, Uri } from "vscode";
+import { getGitDir, getHeadBranch, getWorkspaceFolders, isGitDataDisabled, logIt } from "../Util";
+import { getWorkspaceRepos, clearRepoCache } from "../repo/GitUtil";
+import GitRepo from "../model/GitRepo";
+import { getLastSwitchedBranch, recordBranchSwitch } from "../storage/BranchData";
+import { CommitTrailerManager } from "./CommitTrailerManager";
+
+const fs = require("fs");
+const path = require("path");
+
+// wait for git to finish writing before clearing the cache
+const REFRESH_DELAY_MILLIS: number = 1000 * 2;
+
+/**
+ * Watches the HEAD, index and refs of the workspace repos. A commit,
+ * checkout, stage or fetch clears the cached git data of that repo
+ * and refreshes the tree views. A change of the checked out branch
+ * is added to the branch switch history.
+ */
+export class GitWatchManager {
+  private static instance: GitWatchManager;
+
+  private watchers: Disposable[] = [];
+  // the repo directories that changed since the last refresh,
+  // true if a change moved a local branch or HEAD
+  private changedRepos = {};
+  // the checked out branch of each repo directory
+  private branches = {};
+  private refreshTimer: any = null;
+
+  private _disposable: Disposable;
+
+  private constructor() {
+    this.watchRepos();
+
+    this._disposable = Disposable.from(
+      workspace.onDidChangeWorkspaceFolders(this.watchRepos, this),
+      workspace.onDidChangeConfiguration((e) => {
+        if (e.affectsConfiguration("codetime.disableGitData")) {
+          this.watchRepos();
+        }
+      })
+    );
+  }
+
+  static getInstance(): GitWatchManager {
+    if (!GitWatchManager.instance) {
+      GitWatchManager.instance = new GitWatchManager();
+    }
+
+    return GitWatchManager.instance;
+  }
+
+  dispose() {
+    this.disposeWatchers();
+    this._disposable.dispose();
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
+  watchRepos() {
+    this.disposeWatchers();
+    if (isGitDataDisabled()) {
+      return;
+    }
+
+    getWorkspaceRepos().forEach((repo: GitRepo) => {
+      const gitDir = getGitDir(repo.directory);
+      if (!gitDir) {
+        return;
+      }
+      this.addWatcher(repo.directory, gitDir, ["HEAD", "index", "packed-refs"]);
+
+      // a checkout can happen while the editor is closed
+      this.branches[repo.directory] = getLastSwitchedBranch(repo.directory);
+      this.checkBranch(repo.directory);
+
+      // worktrees keep the branches in the git directory of the main repo
+      const commonDir = getCommonGitDir(gitDir);
+      if (commonDir !== gitDir) {
+        this.addWatcher(repo.directory, commonDir, ["packed-refs"]);
+      }
+    });
+  }
+
+  /**
+   * Watches the files and the refs of the git directory. The editor only
+   * watches within the workspace folders, the git directories of a linked
+   * worktree are in the main repo and are watched with fs.watch.
+   * @param repoDir
+   * @param gitDir
+   * @param fileNames the files directly within the git directory
+   */
+  private addWatcher(repoDir: string, gitDir: string, fileNames: string[]) {
+    if (isInWorkspace(gitDir)) {
+      const pattern = new RelativePattern(gitDir, `{${fileNames.join(",")},refs/**}`);
+      const watcher: FileSystemWatcher = workspace.createFileSystemWatcher(pattern);
+      const handler = (uri: Uri) => this.repoChanged(repoDir, isHistoryChange(uri.fsPath));
+      watcher.onDidCreate(handler);
+      watcher.onDidChange(handler);
+      watcher.onDidDelete(handler);
+      this.watchers.push(watcher);
+      return;
+    }
+
+    // fs.watch isn't recursive on linux, a local branch named "feature/x" is
+    // in a subdirectory of refs/heads but its commits also change the HEAD log
+    this.addFsWatcher(repoDir, gitDir, (fileName: string) => fileNames.indexOf(fileName) !== -1);
+    this.addFsWatcher(repoDir, path.join(gitDir, "logs"), (fileName: string) => fileName === "HEAD");
+    this.addFsWatcher(repoDir, path.join(gitDir, "refs", "heads"), (fileName: string) => !fileName.endsWith(".lock"));
+  }
+
+  private addFsWatcher(repoDir: string, dir: string, matches: (fileName: string) => boolean) {
+    if (!fs.existsSync(dir)) {
+      return;
+    }
+    try {
+      const fsWatcher = fs.watch(dir, (eventType: string, fileName: any) => {
+        // the file name isn't provided on every platform
+        if (!fileName || matches(fileName.toString())) {
+          const file = fileName ? path.join(dir, fileName.toString()) : dir;
+          this.repoChanged(repoDir, isHistoryChange(file));
+        }
+      });
+      fsWatcher.on("error", (e) => logIt(`Unable to watch ${dir}: ${e.message}`));
+      this.watchers.push(new Disposable(() => fsWatcher.close()));
+    } catch (e) {
+      logIt(`Unable to watch ${dir}: ${e.message}`);
+    }
+  }
+
+  private repoChanged(repoDir: string, historyChanged: boolean) {
+    this.changedRepos[repoDir] = this.changedRepos[repoDir] || historyChanged;
+    if (this.refreshTimer) {
+      return;
+    }
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      const changedRepos = this.changedRepos;
+      this.changedRepos = {};
+      Object.keys(changedRepos).forEach((dir) => {
+        clearRepoCache(dir, changedRepos[dir]);
+        this.checkBranch(dir);
+        // the staged files changed
+        CommitTrailerManager.getInstance().updateTrailerFile(dir);
+      });
+      commands.executeCommand("codetime.refreshTreeViews");
+    }, REFRESH_DELAY_MILLIS);
+  }
+
+  private checkBranch(repoDir: string) {
+    const branch = getHeadBranch(repoDir);
+    const lastBranch = this.branches[repoDir];
+    if (branch && lastBranch !== branch) {
+      this.branches[repoDir] = branch;
+      // the first branch seen in a repo isn't a switch
+      if (lastBranch) {
+        recordBranchSwitch(repoDir, lastBranch, branch);
+      }
+    }
+  }
+
+  private disposeWatchers() {
+    this.watchers.forEach((watcher: Disposable) => watcher.dispose());
+    this.watchers = [];
+  }
+}
+
+function isInWorkspace(dir: string): boolean {
+  return !!getWorkspaceFolders().find((folder) => {
+    const folderPath: string = folder.uri.fsPath;
+    return dir === folderPath || dir.startsWith(`${folderPath}${path.sep}`);
+  });
+}
+
+/**
+ * Staging writes the index and a fetch writes the remote refs, neither
+ * changes the commits of the checked out branch
+ * @param file the changed file in the git directory
+ */
+function isHistoryChange(file: string): boolean {
+  return path.basename(file) !== "index" && !/[\\/]refs[\\/]remotes[\\/]/.test(file);
+}
+
+/**
+ * The "commondir" file of a worktree's git directory points to the main git directory
+ * @param gitDir
+ */
+function getCommonGitDir(gitDir: string): string {
+  const commonDirFile = path.join(gitDir, "commondir");
+  try {
+    if (fs.existsSync(commonDirFile)) {
+      return path.resolve(gitDir, fs.readFileSync(commonDirFile, "utf8").trim());
+    }
+  } catch (e) {
+    logIt(`Unable to read ${commonDirFile}: ${e.message}`);
+  }
+  return gitDir;
+}
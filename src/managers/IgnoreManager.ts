@@ -0,0 +1,265 @@
+import { workspace, window, commands, Disposable, Uri, WorkspaceFolder } from "vscode";
+import { getProjectFolder, isWindows, logIt } from "../Util";
+
+const fs = require("fs");
+const path = require("path");
+
+export const CODETIME_IGNORE_FILE = ".codetimeignore";
+
+export class IgnoreRule {
+  regex: RegExp = null;
+  // a "!" pattern includes the files again
+  negate: boolean = false;
+}
+
+/**
+ * Decides which files are kept out of tracking. The rules come from the
+ * gitignore-style .codetimeignore file in each workspace folder and the
+ * codetime.ignorePatterns setting. The rules are cached until one of the
+ * ignore files or the setting changes.
+ */
+export class IgnoreManager {
+  private static instance: IgnoreManager;
+
+  // the .codetimeignore rules by workspace folder path
+  private folderRules = {};
+  private settingRules: IgnoreRule[] = null;
+
+  private _disposable: Disposable;
+
+  private constructor() {
+    const watcher = workspace.createFileSystemWatcher(`**/${CODETIME_IGNORE_FILE}`);
+    watcher.onDidCreate(this.clearRules, this);
+    watcher.onDidChange(this.clearRules, this);
+    watcher.onDidDelete(this.clearRules, this);
+
+    this._disposable = Disposable.from(
+      watcher,
+      workspace.onDidChangeWorkspaceFolders(this.clearRules, this),
+      workspace.onDidChangeConfiguration((e) => {
+        if (e.affectsConfiguration("codetime.ignorePatterns")) {
+          this.clearRules();
+        }
+      })
+    );
+  }
+
+  static getInstance(): IgnoreManager {
+    if (!IgnoreManager.instance) {
+      IgnoreManager.instance = new IgnoreManager();
+    }
+
+    return IgnoreManager.instance;
+  }
+
+  dispose() {
+    this._disposable.dispose();
+  }
+
+  clearRules() {
+    this.folderRules = {};
+    this.settingRules = null;
+  }
+
+  /**
+   * Returns true if the file matches the ignore setting or the
+   * .codetimeignore file of its workspace folder
+   * @param fsPath
+   */
+  isIgnored(fsPath: string): boolean {
+    if (!fsPath) {
+      return false;
+    }
+
+    const folder: WorkspaceFolder = this.getWorkspaceFolder(fsPath);
+    const relativePath = folder
+      ? this.toRulePath(path.relative(folder.uri.fsPath, fsPath))
+      : this.toRulePath(fsPath);
+
+    // like gitignore, the last matching rule wins
+    let ignored = this.applyRules(this.getSettingRules(), relativePath, false);
+    if (folder) {
+      ignored = this.applyRules(this.getFolderRules(folder), relativePath, ignored);
+    }
+    return ignored;
+  }
+
+  /**
+   * Adds the file or folder to the .codetimeignore file of its workspace folder
+   * @param uri the explorer or editor resource, defaults to the active editor
+   */
+  async ignoreResource(uri: Uri = null) {
+    let fsPath = uri ? uri.fsPath : "";
+    if (!fsPath && window.activeTextEditor) {
+      fsPath = window.activeTextEditor.document.fileName;
+    }
+    if (!fsPath) {
+      window.showInformationMessage("Select a file or folder for Code Time to ignore.");
+      return;
+    }
+
+    const folder: WorkspaceFolder = this.getWorkspaceFolder(fsPath);
+    if (!folder) {
+      window.showInformationMessage(
+        "Only files in a workspace folder can be added to .codetimeignore. Use the codetime.ignorePatterns setting for other files."
+      );
+      return;
+    }
+
+    const relativePath = this.toRulePath(path.relative(folder.uri.fsPath, fsPath));
+    // anchor the entry so only this file or folder is matched
+    let entry = relativePath ? `/${relativePath}` : "*";
+    if (relativePath && fs.existsSync(fsPath) && fs.statSync(fsPath).isDirectory()) {
+      entry += "/";
+    }
+
+    const ignoreFile = path.join(folder.uri.fsPath, CODETIME_IGNORE_FILE);
+    try {
+      let content = fs.existsSync(ignoreFile) ? fs.readFileSync(ignoreFile, "utf8") : "";
+      if (content && !content.endsWith("\n")) {
+        content += "\n";
+      }
+      fs.writeFileSync(ignoreFile, `${content}${entry}\n`);
+    } catch (e) {
+      logIt(`Unable to update ${ignoreFile}: ${e.message}`);
+      window.showErrorMessage(`Unable to update ${CODETIME_IGNORE_FILE}: ${e.message}`);
+      return;
+    }
+
+    this.clearRules();
+    commands.executeCommand("codetime.refreshTreeViews");
+    window.showInformationMessage(`Code Time will ignore ${entry} in ${folder.name}.`);
+  }
+
+  private getWorkspaceFolder(fsPath: string): WorkspaceFolder {
+    const folder: WorkspaceFolder = getProjectFolder(fsPath);
+    if (!folder || !folder.uri || !folder.uri.fsPath) {
+      return null;
+    }
+    // the live share folder is returned for files that are not in a folder
+    const relativePath = path.relative(folder.uri.fsPath, fsPath);
+    if (relativePath.startsWith("..") || path.isAbsolute(relativePath)) {
+      return null;
+    }
+    return folder;
+  }
+
+  private getSettingRules(): IgnoreRule[] {
+    if (!this.settingRules) {
+      const patterns: string[] =
+        workspace.getConfiguration("codetime").get("ignorePatterns") || [];
+      this.settingRules = this.parseRules(patterns);
+    }
+    return this.settingRules;
+  }
+
+  private getFolderRules(folder: WorkspaceFolder): IgnoreRule[] {
+    const folderPath = folder.uri.fsPath;
+    if (!this.folderRules[folderPath]) {
+      let lines: string[] = [];
+      const ignoreFile = path.join(folderPath, CODETIME_IGNORE_FILE);
+      try {
+        if (fs.existsSync(ignoreFile)) {
+          lines = fs.readFileSync(ignoreFile, "utf8").split(/\r?\n/);
+        }
+      } catch (e) {
+        logIt(`Unable to read ${ignoreFile}: ${e.message}`);
+      }
+      this.folderRules[folderPath] = this.parseRules(lines);
+    }
+    return this.folderRules[folderPath];
+  }
+
+  private applyRules(rules: IgnoreRule[], relativePath: string, ignored: boolean): boolean {
+    rules.forEach((rule: IgnoreRule) => {
+      if (rule.regex.test(relativePath)) {
+        ignored = !rule.negate;
+      }
+    });
+    return ignored;
+  }
+
+  private parseRules(patterns: string[]): IgnoreRule[] {
+    const rules: IgnoreRule[] = [];
+    patterns.forEach((line: string) => {
+      let pattern = (line || "").trim();
+      if (!pattern || pattern.startsWith("#")) {
+        return;
+      }
+
+      const rule: IgnoreRule = new IgnoreRule();
+      if (pattern.startsWith("!")) {
+        rule.negate = true;
+        pattern = pattern.substring(1);
+      }
+
+      // a trailing slash only matches folders, the files in them are ignored
+      const folderOnly = pattern.endsWith("/");
+      pattern = pattern.replace(/\/+$/, "");
+
+      // a slash at the start or in the middle anchors the pattern to the folder root
+      const anchored = pattern.includes("/");
+      pattern = pattern.replace(/^\/+/, "");
+      if (!pattern) {
+        return;
+      }
+
+      const prefix = anchored ? "^" : "^(?:.*/)?";
+      const suffix = folderOnly ? "/.*$" : "(?:/.*)?$";
+      try {
+        rule.regex = new RegExp(
+          `${prefix}${this.globToRegExp(pattern)}${suffix}`,
+          isWindows() ? "i" : ""
+        );
+        rules.push(rule);
+      } catch (e) {
+        logIt(`Invalid ignore pattern ${line}: ${e.message}`);
+      }
+    });
+    return rules;
+  }
+
+  private globToRegExp(pattern: string): string {
+    let regex = "";
+    let i = 0;
+    while (i < pattern.length) {
+      const c = pattern[i];
+      if (c === "*" && pattern[i + 1] === "*") {
+        if (pattern[i + 2] === "/") {
+          // "**/" matches zero or more folders
+          regex += "(?:.*/)?";
+          i += 3;
+        } else {
+          regex += ".*";
+          i += 2;
+        }
+      } else if (c === "*") {
+        regex += "[^/]*";
+        i++;
+      } else if (c === "?") {
+        regex += "[^/]";
+        i++;
+      } else if (c === "[") {
+        const end = pattern.indexOf("]", i + 1);
+        if (end === -1) {
+          regex += "\\[";
+          i++;
+        } else {
+          regex += `[${pattern.substring(i + 1, end).replace(/^!/, "^").replace(/\\/g, "\\\\")}]`;
+          i = end + 1;
+        }
+      } else {
+        regex += c.replace(/[.+^${}()|\\\]]/g, "\\$&");
+        i++;
+      }
+    }
+    return regex;
+  }
+
+  /**
+   * The rules always use forward slashes
+   */
+  private toRulePath(fsPath: string): string {
+    return fsPath.replace(/\\/g, "/").replace(/^\/+/, "");
+  }
+}
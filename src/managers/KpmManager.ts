@@ -13,6 +13,7 @@ import { storeCurrentPayload } from "./FileManager";
 import Project from "../model/Project";
 import { PluginDataManager } from "./PluginDataManager";
 import { TrackerManager } from "./TrackerManager";
+import { IgnoreManager } from "./IgnoreManager";
 
 let _keystrokeMap = {};
 let _staticInfoMap = {};
@@ -54,6 +55,21 @@ export class KpmManager {
     return _keystrokeMap && Object.keys(_keystrokeMap).length ? true : false;
   }
 
+  /**
+   * Returns the keystroke stats of the file that haven't been sent yet,
+   * with only the file in its source, or null if it wasn't edited
+   * @param fileName
+   */
+  public getCurrentKeystrokeStats(fileName: string): KeystrokeStats {
+    const keystrokeStats: KeystrokeStats = _keystrokeMap[getRootPathForFile(fileName) || NO_PROJ_NAME];
+    if (!keystrokeStats || !keystrokeStats.source[fileName]) {
+      return null;
+    }
+    const fileStats: KeystrokeStats = Object.assign(new KeystrokeStats(keystrokeStats.project), keystrokeStats);
+    fileStats.source = { [fileName]: keystrokeStats.source[fileName] };
+    return fileStats;
+  }
+
   public async sendKeystrokeDataIntervalHandler(isUnfocus: boolean = false) {
     //
     // Go through all keystroke count objects found in the map and send
@@ -65,6 +81,13 @@ export class KpmManager {
       for (let key of keys) {
         const keystrokeStats = _keystrokeMap[key];
 
+        // drop the files that were ignored after they were edited
+        Object.keys(keystrokeStats.source).forEach((file) => {
+          if (IgnoreManager.getInstance().isIgnored(file)) {
+            delete keystrokeStats.source[file];
+          }
+        });
+
         // check if we have keystroke data
         if (keystrokeStats.hasData()) {
           // post the payload offline until the batch interval sends it out
@@ -463,17 +486,18 @@ export class KpmManager {
 
     const isLiveshareTmpFile = filename.match(/.*\.code-workspace.*vsliveshare.*tmp-.*/);
     const isInternalFile = filename.match(
-      /.*\.software.*(CommitSummary\.txt|CodeTime\.txt|session\.json|ProjectCodeSummary\.txt|data.json)/
+      /.*\.software.*(CommitSummary\.txt|CodeTime\.txt|session\.json|ProjectCodeSummary\.txt|data.json|DailyReportSummary\.txt|Standup\.md|Timesheet\.(csv|json)|TicketReport\.txt|TicketWorklog\.csv)/
     );
 
     // return false that its not a doc that we want to track based on the
-    // following conditions: non-doc scheme, is liveshare tmp file, is internal file
-    // and the file is no longer active
+    // following conditions: non-doc scheme, is liveshare tmp file, is internal file,
+    // the file is no longer active or it matches an ignore rule
     if (
       !isDocEventScheme ||
       isLiveshareTmpFile ||
       isInternalFile ||
-      !isFileActive(filename, isCloseEvent)
+      !isFileActive(filename, isCloseEvent) ||
+      IgnoreManager.getInstance().isIgnored(filename)
     ) {
       return false;
     }
@@ -0,0 +1,255 @@
+import { commands } from "vscode";
+import {
+  getOutboxFile,
+  getFileDataAsJson,
+  getWorkspaceName,
+  nowInSecs,
+  logIt,
+  isLocalOnlyMode,
+} from "../Util";
+import { storeJsonData } from "./FileManager";
+import { serverIsAvailable } from "../http/HttpClient";
+import { TrackerManager } from "./TrackerManager";
+import KeystrokeStats from "../model/KeystrokeStats";
+import { v4 as uuidv4 } from "uuid";
+
+// roughly 10 days of one minute payloads
+const MAX_OUTBOX_SIZE: number = 60 * 8 * 10;
+const MIN_RETRY_MILLIS: number = 1000 * 30;
+const MAX_RETRY_MILLIS: number = 1000 * 60 * 30;
+// the payloads sent before checking the connection is still up
+const FLUSH_BATCH_SIZE: number = 20;
+// how long a window can hold the flush lease before another window takes over
+const LEASE_SECONDS: number = 60 * 2;
+
+export class OutboxItem {
+  id: string = "";
+  queued_utc: number = 0;
+  payload: KeystrokeStats = null;
+}
+
+export class Outbox {
+  items: OutboxItem[] = [];
+  // number of payloads removed because the outbox reached its max size
+  dropped: number = 0;
+  lease_owner: string = "";
+  lease_expires_utc: number = 0;
+}
+
+/**
+ * Durable queue for the keystroke payloads. Every payload is written
+ * to the outbox.json file first, then sent to the tracker. If the server
+ * or the tracker isn't available, or the connection drops while they're
+ * sent, the payloads remain on disk and the flush is retried with an
+ * exponential backoff. A payload can be sent twice, but it isn't lost.
+ */
+export class OutboxManager {
+  private static instance: OutboxManager;
+
+  private retryTimer: any = null;
+  private retryAttempts: number = 0;
+  private flushing: boolean = false;
+
+  private constructor() {
+    // send anything that was left over from a previous session
+    this.scheduleFlush(MIN_RETRY_MILLIS);
+  }
+
+  static getInstance(): OutboxManager {
+    if (!OutboxManager.instance) {
+      OutboxManager.instance = new OutboxManager();
+    }
+
+    return OutboxManager.instance;
+  }
+
+  dispose() {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  getQueueDepth(): number {
+    return this.getOutbox().items.length;
+  }
+
+  getDroppedCount(): number {
+    return this.getOutbox().dropped;
+  }
+
+  /**
+   * Store the payload in the outbox and try to send it
+   * @param payload
+   */
+  enqueue(payload: KeystrokeStats) {
+    if (isLocalOnlyMode()) {
+      // the payload data is kept in the local summary files only
+      return;
+    }
+    const outbox: Outbox = this.getOutbox();
+
+    const item: OutboxItem = new OutboxItem();
+    item.id = uuidv4();
+    item.queued_utc = nowInSecs();
+    // store a copy, the tracker removes the files it was able to send
+    item.payload = JSON.parse(JSON.stringify(payload));
+    outbox.items.push(item);
+
+    if (outbox.items.length > MAX_OUTBOX_SIZE) {
+      // remove the oldest payloads
+      const overflow = outbox.items.length - MAX_OUTBOX_SIZE;
+      outbox.items.splice(0, overflow);
+      outbox.dropped += overflow;
+      logIt(`Outbox is full, removed ${overflow} of the oldest payloads`);
+    }
+    this.saveOutbox(outbox);
+
+    // don't send now if we're waiting on a backoff retry
+    if (!this.retryTimer) {
+      this.flush();
+    }
+  }
+
+  /**
+   * Send the queued payloads in the order they were added
+   */
+  async flush() {
+    if (this.flushing) {
+      return;
+    }
+    this.flushing = true;
+    try {
+      await this.flushOutbox();
+    } catch (e) {
+      logIt(`Unable to flush the outbox: ${e.message}`);
+      this.scheduleRetry();
+    } finally {
+      this.flushing = false;
+    }
+  }
+
+  private async flushOutbox() {
+    if (!this.getQueueDepth() || isLocalOnlyMode()) {
+      this.retryAttempts = 0;
+      return;
+    }
+
+    const tracker: TrackerManager = TrackerManager.getInstance();
+    const serverIsOnline = await serverIsAvailable();
+    if (serverIsOnline && !tracker.isReady()) {
+      // the tracker may have failed to initialize while we were offline
+      await tracker.init();
+    }
+    if (!serverIsOnline || !tracker.isReady() || !this.acquireLease()) {
+      this.scheduleRetry();
+      return;
+    }
+
+    let items: OutboxItem[] = this.getOutbox().items.slice(0, FLUSH_BATCH_SIZE);
+    while (items.length) {
+      const sentIds: string[] = [];
+      let unsentItem: OutboxItem = null;
+      for (let i = 0; i < items.length; i++) {
+        const sent = await tracker.trackCodeTimeEvent(items[i].payload);
+        if (!sent) {
+          unsentItem = items[i];
+          break;
+        }
+        sentIds.push(items[i].id);
+      }
+
+      // the tracker posts the events in the background without a result, they're
+      // only removed if the server is still reachable after they were handed off
+      const delivered = sentIds.length > 0 && (await serverIsAvailable());
+
+      // re-read the outbox, other windows may have added payloads
+      const outbox: Outbox = this.getOutbox();
+      if (delivered) {
+        outbox.items = outbox.items.filter((n: OutboxItem) => sentIds.indexOf(n.id) === -1);
+        const idx = unsentItem ? outbox.items.findIndex((n: OutboxItem) => n.id === unsentItem.id) : -1;
+        if (idx !== -1) {
+          // keep the files that have not been sent yet
+          outbox.items[idx] = unsentItem;
+        }
+      }
+      outbox.lease_expires_utc = nowInSecs() + LEASE_SECONDS;
+      this.saveOutbox(outbox);
+
+      if (unsentItem || !delivered) {
+        // the connection dropped, the payloads are sent again on the retry
+        this.releaseLease();
+        this.scheduleRetry();
+        return;
+      }
+      items = outbox.items.slice(0, FLUSH_BATCH_SIZE);
+    }
+
+    this.retryAttempts = 0;
+    this.releaseLease();
+
+    // update the queue depth shown in the tree
+    commands.executeCommand("codetime.refreshKpmTree");
+  }
+
+  private scheduleRetry() {
+    const delay = Math.min(
+      MIN_RETRY_MILLIS * Math.pow(2, this.retryAttempts),
+      MAX_RETRY_MILLIS
+    );
+    this.retryAttempts += 1;
+    this.scheduleFlush(delay);
+  }
+
+  private scheduleFlush(delay: number) {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+    }
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flush();
+    }, delay);
+  }
+
+  /**
+   * Only one window can send the outbox at a time. The lease
+   * expires in case the window holding it was closed.
+   */
+  private acquireLease(): boolean {
+    const outbox: Outbox = this.getOutbox();
+    const now = nowInSecs();
+    const owner = getWorkspaceName();
+    if (outbox.lease_owner && outbox.lease_owner !== owner && outbox.lease_expires_utc > now) {
+      return false;
+    }
+    outbox.lease_owner = owner;
+    outbox.lease_expires_utc = now + LEASE_SECONDS;
+    this.saveOutbox(outbox);
+    return true;
+  }
+
+  private releaseLease() {
+    const outbox: Outbox = this.getOutbox();
+    if (outbox.lease_owner === getWorkspaceName()) {
+      outbox.lease_owner = "";
+      outbox.lease_expires_utc = 0;
+      this.saveOutbox(outbox);
+    }
+  }
+
+  private getOutbox(): Outbox {
+    const outbox: Outbox = new Outbox();
+    const data = getFileDataAsJson(getOutboxFile());
+    if (data) {
+      outbox.items = data.items || [];
+      outbox.dropped = data.dropped || 0;
+      outbox.lease_owner = data.lease_owner || "";
+      outbox.lease_expires_utc = data.lease_expires_utc || 0;
+    }
+    return outbox;
+  }
+
+  private saveOutbox(outbox: Outbox) {
+    storeJsonData(getOutboxFile(), outbox);
+  }
+}
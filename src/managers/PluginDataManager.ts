@@ -4,10 +4,13 @@ import {
   getFileDataAsJson,
   isNewDay,
   setItem,
+  getItem,
   getProjectFolder,
   getWorkspaceName,
   getHostname,
   coalesceNumber,
+  getGitRootForFile,
+  getHeadBranch,
 } from "../Util";
 import {
   storeJsonData,
@@ -39,7 +42,10 @@ import { FileChangeInfo, KeystrokeAggregate } from "../model/models";
 import { WallClockManager } from "./WallClockManager";
 import TimeData from "../model/TimeData";
 import { clearTimeDataSummary, incrementSessionAndFileSecondsAndFetch } from "../storage/TimeSummaryData";
-import { TrackerManager } from "./TrackerManager";
+import { OutboxManager } from "./OutboxManager";
+import { CommitTrailerManager } from "./CommitTrailerManager";
+import { rollupSummaryDataToHistory } from "../storage/HistoryData";
+import { appendActivityRecord, pruneActivityLog } from "../storage/ActivityLogData";
 
 const moment = require("moment-timezone");
 const path = require("path");
@@ -47,8 +53,6 @@ const path = require("path");
 const FIFTEEN_MIN_IN_SECONDS: number = 60 * 15;
 const TWO_MIN_INTERVAL: number = 1000 * 60 * 2;
 
-const tracker: TrackerManager = TrackerManager.getInstance();
-
 export class PluginDataManager {
   private static instance: PluginDataManager;
 
@@ -186,6 +190,7 @@ export class PluginDataManager {
   /**
    * If it's a new day...
    * Step 1)
+   *   Roll the previous day's summary data into the local history
    *   Send offline data
    * Step 2)
    *   Clear "cumulative_code_time_seconds"
@@ -198,6 +203,10 @@ export class PluginDataManager {
   async midnightCheckHandler() {
     if (isNewDay()) {
 
+      // keep the previous day's metrics before the summary files are cleared
+      rollupSummaryDataToHistory(getItem("currentDay"));
+      pruneActivityLog();
+
       // reset stats
       this.clearStatsForNewDay();
 
@@ -335,6 +344,12 @@ export class PluginDataManager {
     // update the aggregation data for the tree info
     this.aggregateFileMetrics(payload, sessionSeconds);
 
+    // keep the payload times for the hourly activity reports
+    appendActivityRecord(payload);
+
+    // the commit hook trailers include the new activity
+    CommitTrailerManager.getInstance().updateTrailerFiles();
+
     // Update the latestPayloadTimestampEndUtc. It's used to determine session time and elapsed_seconds
     const latestPayloadTimestampEndUtc = getNowTimes().now_in_sec;
     setItem("latestPayloadTimestampEndUtc", latestPayloadTimestampEndUtc);
@@ -349,8 +364,8 @@ export class PluginDataManager {
       this.editorUnFocusHandler();
     }
 
-    // send the payload to the tracker manager
-    tracker.trackCodeTimeEvent(payload);
+    // queue the payload in the outbox, it's sent to the tracker from there
+    OutboxManager.getInstance().enqueue(payload);
   }
 
   async clearStatsForNewDay() {
@@ -377,17 +392,18 @@ export class PluginDataManager {
     saveFileChangeInfoToDisk(fileChangeInfoMap);
   }
 
-  async populateRepoMetrics(payload: KeystrokeStats) {
+  async populateRepoMetrics(payload: KeystrokeStats, repoDirectory: string = null) {
     if (payload.project && payload.project.identifier && payload.project.directory) {
+      const directory = repoDirectory || payload.project.directory;
       // REPO contributor count
       const repoContributorInfo: RepoContributorInfo = await getRepoContributorInfo(
-        payload.project.directory,
+        directory,
         true
       );
       payload.repoContributorCount = repoContributorInfo ? repoContributorInfo.count || 0 : 0;
 
       // REPO file count
-      const repoFileCount = await getRepoFileCount(payload.project.directory);
+      const repoFileCount = await getRepoFileCount(directory);
       payload.repoFileCount = repoFileCount || 0;
     } else {
       payload.repoContributorCount = 0;
@@ -406,14 +422,17 @@ export class PluginDataManager {
     let directory = UNTITLED;
     let projName = NO_PROJ_NAME;
     let resourceInfo = null;
+    let repoDirectory = null;
     for (let i = 0; i < keys.length; i++) {
       const fileName = keys[i];
       const workspaceFolder: WorkspaceFolder = getProjectFolder(fileName);
       if (workspaceFolder) {
         directory = workspaceFolder.uri.fsPath;
         projName = workspaceFolder.name;
-        // since we have this, look for the repo identifier
-        resourceInfo = await getResourceInfo(directory);
+        // since we have this, look for the repo identifier. the nearest
+        // repo of the file can be a submodule or a worktree.
+        repoDirectory = getGitRootForFile(fileName) || directory;
+        resourceInfo = await getResourceInfo(repoDirectory);
         break;
       }
     }
@@ -424,9 +443,22 @@ export class PluginDataManager {
     p.name = projName;
     p.resource = resourceInfo;
     p.identifier = resourceInfo && resourceInfo.identifier ? resourceInfo.identifier : "";
+    p.branch = repoDirectory ? getHeadBranch(repoDirectory) : "";
     payload.project = p;
 
-    await this.populateRepoMetrics(payload);
+    // the files of a submodule or worktree can be on a different branch
+    const branches = {};
+    keys.forEach((key) => {
+      const fileRepoDir = getGitRootForFile(key);
+      if (fileRepoDir) {
+        if (branches[fileRepoDir] === undefined) {
+          branches[fileRepoDir] = getHeadBranch(fileRepoDir);
+        }
+        payload.source[key].branch = branches[fileRepoDir];
+      }
+    });
+
+    await this.populateRepoMetrics(payload, repoDirectory);
   }
 
   /**
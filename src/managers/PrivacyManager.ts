@@ -0,0 +1,122 @@
+import { workspace } from "vscode";
+import { getItem, setItem } from "../Util";
+
+const crypto = require("crypto");
+const path = require("path");
+
+export enum PrivacyMode {
+  Full = "full",
+  HashPaths = "hashPaths",
+  ExtensionOnly = "extensionOnly",
+  ProjectOnly = "projectOnly",
+}
+
+// the event attributes that can identify a file
+const FILE_FIELDS = ["file_path", "file_name"];
+// the event attributes that can identify a project or repo
+const PROJECT_FIELDS = ["project_directory", "project_name"];
+const REPO_FIELDS = ["identifier", "owner_id", "org_name", "repo_name", "repo_identifier", "git_branch", "git_tag"];
+
+/**
+ * Applies the codetime.privacyMode setting to the tracker events
+ * before they're sent.
+ *
+ * full: everything is sent as is
+ * hashPaths: file, project and repo values are replaced by a salted hash
+ * extensionOnly: only the file extension is sent, project and repo values are hashed
+ * projectOnly: only the project name is sent, file and repo values are removed
+ */
+export class PrivacyManager {
+  private static instance: PrivacyManager;
+
+  private constructor() { }
+
+  static getInstance(): PrivacyManager {
+    if (!PrivacyManager.instance) {
+      PrivacyManager.instance = new PrivacyManager();
+    }
+
+    return PrivacyManager.instance;
+  }
+
+  getPrivacyMode(): PrivacyMode {
+    const mode: string = workspace.getConfiguration("codetime").get("privacyMode");
+    switch (mode) {
+      case PrivacyMode.HashPaths:
+      case PrivacyMode.ExtensionOnly:
+      case PrivacyMode.ProjectOnly:
+        return mode as PrivacyMode;
+      default:
+        return PrivacyMode.Full;
+    }
+  }
+
+  /**
+   * Returns a copy of the event with the privacy mode applied
+   * @param event a codetime or editor event
+   */
+  redactEvent(event: any): any {
+    const mode: PrivacyMode = this.getPrivacyMode();
+    if (mode === PrivacyMode.Full) {
+      return event;
+    }
+
+    const redacted = { ...event };
+    switch (mode) {
+      case PrivacyMode.HashPaths:
+        this.hashFields(redacted, [...FILE_FIELDS, ...PROJECT_FIELDS, ...REPO_FIELDS]);
+        break;
+      case PrivacyMode.ExtensionOnly:
+        if (redacted.file_path !== undefined || redacted.file_name !== undefined) {
+          redacted.file_name = path.extname(event.file_path || event.file_name || "");
+          redacted.file_path = "";
+        }
+        this.hashFields(redacted, [...PROJECT_FIELDS, ...REPO_FIELDS]);
+        break;
+      case PrivacyMode.ProjectOnly:
+        this.clearFields(redacted, [...FILE_FIELDS, "project_directory", ...REPO_FIELDS]);
+        break;
+    }
+    return redacted;
+  }
+
+  /**
+   * Returns the salted sha256 hash of the value. The salt is created
+   * once per user so the same path always has the same hash.
+   * @param value
+   */
+  hashValue(value: string): string {
+    if (!value) {
+      return value;
+    }
+    return crypto
+      .createHash("sha256")
+      .update(`${this.getSalt()}${value}`)
+      .digest("hex");
+  }
+
+  private getSalt(): string {
+    let salt = getItem("privacySalt");
+    if (!salt) {
+      salt = crypto.randomBytes(32).toString("hex");
+      setItem("privacySalt", salt);
+    }
+    return salt;
+  }
+
+  private hashFields(event: any, fields: string[]) {
+    fields.forEach((field) => {
+      if (event[field]) {
+        event[field] = this.hashValue(event[field]);
+      }
+    });
+  }
+
+  private clearFields(event: any, fields: string[]) {
+    fields.forEach((field) => {
+      if (event[field] !== undefined) {
+        event[field] = "";
+      }
+    });
+  }
+}
@@ -1,10 +1,20 @@
 import swdcTracker from "swdc-tracker";
-import { api_endpoint } from "../Constants";
-import { getPluginName, getItem, getPluginId, getVersion, getWorkspaceFolders } from "../Util";
+import {
+  getPluginName,
+  getItem,
+  getPluginId,
+  getVersion,
+  getWorkspaceFolders,
+  getTrackerHost,
+  isLocalOnlyMode,
+  isGitDataDisabled,
+  getGitRootForFile,
+} from "../Util";
 import { KpmItem, FileChangeInfo } from "../model/models";
 import { getResourceInfo } from "../repo/KpmRepoManager";
 import { getRepoIdentifierInfo } from "../repo/GitUtil";
 import KeystrokeStats from "../model/KeystrokeStats";
+import { PrivacyManager } from "./PrivacyManager";
 
 const moment = require("moment-timezone");
 
@@ -26,8 +36,13 @@ export class TrackerManager {
 
   public async init() {
     // initialize tracker with swdc api host, namespace, and appId
+    this.trackerReady = false;
+    if (isLocalOnlyMode()) {
+      // nothing is sent in local-only mode
+      return;
+    }
     const result = await swdcTracker.initialize(
-      api_endpoint,
+      getTrackerHost(),
       "CodeTime",
       "swdc-vscode"
     );
@@ -36,10 +51,53 @@ export class TrackerManager {
     }
   }
 
-  public async trackCodeTimeEvent(keystrokeStats: KeystrokeStats) {
+  public isReady(): boolean {
+    return this.trackerReady;
+  }
+
+  /**
+   * Hands a codetime event for each file in the keystroke stats to the
+   * tracker. Returns false if the tracker isn't ready or rejected one of
+   * the events. The tracker posts them in the background, so true doesn't
+   * mean they reached the server. Files that were handed off are removed
+   * from the payload's source.
+   * @param keystrokeStats
+   */
+  public async trackCodeTimeEvent(keystrokeStats: KeystrokeStats): Promise<boolean> {
     if (!this.trackerReady) {
-      return;
+      return false;
+    }
+
+    // loop through the files in the keystroke stats "source"
+    const fileKeys = Object.keys(keystrokeStats.source);
+    for await (let file of fileKeys) {
+      const repoParams = await this.getFileRepoParams(file, keystrokeStats.project.directory);
+      const codetime_event = this.buildCodeTimeEvent(keystrokeStats, file, repoParams);
+
+      const result = await swdcTracker.trackCodeTimeEvent(codetime_event);
+      if (!result || result.status !== 200) {
+        return false;
+      }
+      delete keystrokeStats.source[file];
     }
+    return true;
+  }
+
+  /**
+   * Returns the codetime events of the keystroke stats as they would be sent
+   * @param keystrokeStats
+   */
+  public async getCodeTimeEvents(keystrokeStats: KeystrokeStats): Promise<any[]> {
+    const events = [];
+    for await (let file of Object.keys(keystrokeStats.source)) {
+      const repoParams = await this.getFileRepoParams(file, keystrokeStats.project.directory);
+      events.push(this.buildCodeTimeEvent(keystrokeStats, file, repoParams));
+    }
+    return events;
+  }
+
+  private buildCodeTimeEvent(keystrokeStats: KeystrokeStats, file: string, repoParams) {
+    const fileData: FileChangeInfo = keystrokeStats.source[file];
 
     // extract the project info from the keystroke stats
     const projectInfo = {
@@ -47,48 +105,41 @@ export class TrackerManager {
       project_name: keystrokeStats.project.name,
     };
 
-    // loop through the files in the keystroke stats "source"
-    const fileKeys = Object.keys(keystrokeStats.source);
-    for await (let file of fileKeys) {
-      const fileData: FileChangeInfo = keystrokeStats.source[file];
-
-      const codetime_entity = {
-        keystrokes: fileData.keystrokes,
-        lines_added: fileData.documentChangeInfo.linesAdded,
-        lines_deleted: fileData.documentChangeInfo.linesDeleted,
-        characters_added: fileData.documentChangeInfo.charactersAdded,
-        characters_deleted: fileData.documentChangeInfo.charactersDeleted,
-        single_deletes: fileData.documentChangeInfo.singleDeletes,
-        multi_deletes: fileData.documentChangeInfo.multiDeletes,
-        single_adds: fileData.documentChangeInfo.singleAdds,
-        multi_adds: fileData.documentChangeInfo.multiAdds,
-        auto_indents: fileData.documentChangeInfo.autoIndents,
-        replacements: fileData.documentChangeInfo.replacements,
-        start_time: moment.unix(fileData.start).utc().format(),
-        end_time: moment.unix(fileData.end).utc().format(),
-      };
-
-      const file_entity = {
-        file_name: fileData.fsPath?.split(fileData.projectDir)?.[1],
-        file_path: fileData.fsPath,
-        syntax: fileData.syntax,
-        line_count: fileData.lines,
-        character_count: fileData.length,
-      };
-
-      const repoParams = await this.getRepoParams(keystrokeStats.project.directory);
+    const codetime_entity = {
+      keystrokes: fileData.keystrokes,
+      lines_added: fileData.documentChangeInfo.linesAdded,
+      lines_deleted: fileData.documentChangeInfo.linesDeleted,
+      characters_added: fileData.documentChangeInfo.charactersAdded,
+      characters_deleted: fileData.documentChangeInfo.charactersDeleted,
+      single_deletes: fileData.documentChangeInfo.singleDeletes,
+      multi_deletes: fileData.documentChangeInfo.multiDeletes,
+      single_adds: fileData.documentChangeInfo.singleAdds,
+      multi_adds: fileData.documentChangeInfo.multiAdds,
+      auto_indents: fileData.documentChangeInfo.autoIndents,
+      replacements: fileData.documentChangeInfo.replacements,
+      start_time: moment.unix(fileData.start).utc().format(),
+      end_time: moment.unix(fileData.end).utc().format(),
+    };
 
-      const codetime_event = {
-        ...codetime_entity,
-        ...file_entity,
-        ...projectInfo,
-        ...this.pluginParams,
-        ...this.getJwtParams(),
-        ...repoParams,
-      };
+    const file_entity = {
+      file_name: fileData.fsPath?.split(fileData.projectDir)?.[1],
+      file_path: fileData.fsPath,
+      syntax: fileData.syntax,
+      line_count: fileData.lines,
+      character_count: fileData.length,
+    };
 
-      swdcTracker.trackCodeTimeEvent(codetime_event);
-    }
+    // apply the privacy mode to the complete event
+    return PrivacyManager.getInstance().redactEvent({
+      ...codetime_entity,
+      ...file_entity,
+      ...projectInfo,
+      ...this.pluginParams,
+      ...this.getJwtParams(),
+      ...repoParams,
+      // the resource info is cached, the payload has the branch the file was edited on
+      git_branch: repoParams.repo_identifier && fileData.branch ? fileData.branch : repoParams.git_branch,
+    });
   }
 
   public async trackUIInteraction(item: KpmItem) {
@@ -126,10 +177,27 @@ export class TrackerManager {
       return;
     }
 
+    const editor_event = await this.getEditorEvent(entity, type, event);
+    // send the event
+    swdcTracker.trackEditorAction(editor_event);
+  }
+
+  /**
+   * Returns the editor event as it would be sent
+   * @param entity
+   * @param type
+   * @param event
+   */
+  public async getEditorEvent(entity: string, type: string, event?: any) {
     const projectParams = this.getProjectParams();
-    const repoParams = await this.getRepoParams(projectParams.project_directory);
+    const textDoc = event ? event.document || event : null;
+    const repoParams = await this.getFileRepoParams(
+      textDoc ? textDoc.fileName : null,
+      projectParams.project_directory
+    );
 
-    const editor_event = {
+    // apply the privacy mode to the complete event
+    return PrivacyManager.getInstance().redactEvent({
       entity,
       type,
       ...this.pluginParams,
@@ -137,9 +205,7 @@ export class TrackerManager {
       ...projectParams,
       ...this.getFileParams(event, projectParams.project_directory),
       ...repoParams,
-    };
-    // send the event
-    swdcTracker.trackEditorAction(editor_event);
+    });
   }
 
   // Static attributes
@@ -166,7 +232,7 @@ export class TrackerManager {
   }
 
   async getRepoParams(projectRootPath) {
-    const resourceInfo = await getResourceInfo(projectRootPath);
+    const resourceInfo = isGitDataDisabled() ? null : await getResourceInfo(projectRootPath);
     if (!resourceInfo || !resourceInfo.identifier) {
       // return empty data, no need to parse further
       return {
@@ -190,6 +256,16 @@ export class TrackerManager {
     };
   }
 
+  /**
+   * Returns the repo params of the nearest repo of the file, it can
+   * be a submodule or a worktree within the project
+   * @param fileName
+   * @param projectRootPath
+   */
+  async getFileRepoParams(fileName, projectRootPath) {
+    return this.getRepoParams(getGitRootForFile(fileName) || projectRootPath);
+  }
+
   getFileParams(event, projectRootPath) {
     if (!event) return {};
     // File Open and Close have document attributes on the event.
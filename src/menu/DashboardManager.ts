@@ -0,0 +1,335 @@
+import { window, commands, ViewColumn, WebviewPanel } from "vscode";
+import { humanizeMinutes, formatNumber, getWorkspaceFolders, logIt } from "../Util";
+import { getHistoryForLastDays, getHistorySummary, getLanguageBreakdown } from "../storage/HistoryData";
+import { getCommits } from "../repo/GitUtil";
+import { displayCodeTimeMetricsDashboard } from "./MenuManager";
+import { CommitInfo } from "../model/models";
+import DayHistory from "../model/DayHistory";
+import LanguageHistory from "../model/LanguageHistory";
+import HistorySummary from "../model/HistorySummary";
+import ActivityHeatmap from "../model/ActivityHeatmap";
+import { getActivityHeatmap } from "../storage/ActivityLogData";
+
+const moment = require("moment-timezone");
+
+const dayFormat = "YYYY-MM-DD";
+const DEFAULT_RANGE_DAYS = 14;
+const MAX_CHART_ROWS = 8;
+
+interface ChartPoint {
+  label: string;
+  value: number;
+  valueLabel: string;
+  // shown when hovering over the bar
+  title: string;
+}
+
+/**
+ * Shows the local metrics in a webview panel with charts. The data comes from
+ * the same history and git logs used by the text reports.
+ */
+export class DashboardManager {
+  private static instance: DashboardManager;
+
+  private panel: WebviewPanel = null;
+  private rangeDays: number = DEFAULT_RANGE_DAYS;
+
+  private constructor() {
+    //
+  }
+
+  static getInstance(): DashboardManager {
+    if (!DashboardManager.instance) {
+      DashboardManager.instance = new DashboardManager();
+    }
+
+    return DashboardManager.instance;
+  }
+
+  async showDashboard() {
+    try {
+      if (!this.panel) {
+        this.panel = window.createWebviewPanel("codetime.dashboard", "Code Time", ViewColumn.One, {
+          enableScripts: true,
+        });
+        this.panel.onDidDispose(() => {
+          this.panel = null;
+        });
+        this.panel.webview.onDidReceiveMessage((message) => this.handleMessage(message));
+      } else {
+        this.panel.reveal(ViewColumn.One);
+      }
+      this.panel.webview.html = await this.getDashboardHtml();
+    } catch (e) {
+      // webviews aren't available, show the text summary instead
+      logIt(`Unable to show the dashboard: ${e.message}`);
+      displayCodeTimeMetricsDashboard();
+    }
+  }
+
+  private async handleMessage(message) {
+    if (!message) {
+      return;
+    }
+    if (message.command === "setRange") {
+      this.rangeDays = parseInt(message.days, 10) || DEFAULT_RANGE_DAYS;
+      await this.showDashboard();
+    } else if (message.command === "viewText") {
+      commands.executeCommand("codetime.codeTimeMetrics");
+    }
+  }
+
+  private async getDashboardHtml(): Promise<string> {
+    const entries: DayHistory[] = getHistoryForLastDays(this.rangeDays);
+    const summary: HistorySummary = getHistorySummary(entries);
+    const commits: CommitInfo[] = await this.getWorkspaceCommits();
+
+    const days: string[] = [];
+    for (let i = this.rangeDays - 1; i >= 0; i--) {
+      days.push(moment().subtract(i, "days").format(dayFormat));
+    }
+
+    const timePerDay: ChartPoint[] = days.map((day) => {
+      const minutes =
+        entries.filter((n: DayHistory) => n.day === day).reduce((sum, n) => sum + n.session_seconds, 0) / 60;
+      return {
+        label: moment(day, dayFormat).format("dd D"),
+        value: minutes,
+        valueLabel: humanizeMinutes(minutes),
+        title: `${moment(day, dayFormat).format("ddd, MMM Do")}: ${humanizeMinutes(minutes)}`,
+      };
+    });
+
+    const commitsPerDay: ChartPoint[] = days.map((day) => {
+      const count = commits.filter((n: CommitInfo) => moment.unix(n.timestamp).format(dayFormat) === day).length;
+      return {
+        label: moment(day, dayFormat).format("dd D"),
+        value: count,
+        valueLabel: `${count}`,
+        title: `${moment(day, dayFormat).format("ddd, MMM Do")}: ${count} commit(s)`,
+      };
+    });
+
+    const projectMinutes = {};
+    entries.forEach((n: DayHistory) => {
+      const name = n.project.name || n.project.directory;
+      projectMinutes[name] = (projectMinutes[name] || 0) + n.session_seconds / 60;
+    });
+    const timePerProject: ChartPoint[] = this.getTopPoints(projectMinutes, (minutes) => humanizeMinutes(minutes));
+
+    const languageMinutes = {};
+    getLanguageBreakdown(entries).forEach((n: LanguageHistory) => {
+      languageMinutes[n.language] = n.duration_seconds / 60;
+    });
+    const timePerLanguage: ChartPoint[] = this.getTopPoints(languageMinutes, (minutes) => humanizeMinutes(minutes));
+
+    const cards = [
+      { label: "Active code time", value: humanizeMinutes(summary.session_seconds / 60) },
+      { label: "Code time", value: humanizeMinutes(summary.editor_seconds / 60) },
+      { label: "Keystrokes", value: formatNumber(summary.keystrokes) },
+      { label: "Lines added", value: formatNumber(summary.lines_added) },
+      { label: "Commits", value: formatNumber(commits.length) },
+    ];
+
+    let body = `<div class="cards">`;
+    cards.forEach((card) => {
+      body += `<div class="card"><div class="card-value">${card.value}</div><div class="card-label">${card.label}</div></div>`;
+    });
+    body += `</div>`;
+    body += buildSection("Active code time per day", buildColumnChart(timePerDay));
+    body += buildSection("Active code time per project", buildBarChart(timePerProject));
+    body += buildSection("Time per language", buildBarChart(timePerLanguage));
+    body += buildSection("Commit activity", buildColumnChart(commitsPerDay));
+    body += buildSection("Hourly activity", buildHeatmap(getActivityHeatmap(days[0], days[days.length - 1])));
+
+    return buildPage(body, this.rangeDays);
+  }
+
+  private async getWorkspaceCommits(): Promise<CommitInfo[]> {
+    const start = moment()
+      .subtract(this.rangeDays - 1, "days")
+      .startOf("day")
+      .unix();
+    const end = moment().endOf("day").unix();
+    const commits: CommitInfo[] = [];
+    const folders = getWorkspaceFolders();
+    for (let i = 0; i < folders.length; i++) {
+      commits.push(...(await getCommits(folders[i].uri.fsPath, start, end)));
+    }
+    return commits;
+  }
+
+  private getTopPoints(valueMap, formatter: (value: number) => string): ChartPoint[] {
+    return Object.keys(valueMap)
+      .map((key) => {
+        const valueLabel = formatter(valueMap[key]);
+        return { label: key, value: valueMap[key], valueLabel, title: `${key}: ${valueLabel}` };
+      })
+      .filter((n: ChartPoint) => n.value > 0)
+      .sort((a: ChartPoint, b: ChartPoint) => b.value - a.value)
+      .slice(0, MAX_CHART_ROWS);
+  }
+}
+
+function buildSection(title: string, content: string) {
+  return `<section><h2>${title}</h2>${content}</section>`;
+}
+
+/**
+ * Vertical bars, one per day
+ */
+function buildColumnChart(points: ChartPoint[]) {
+  const max = Math.max(...points.map((n) => n.value), 0);
+  if (!max) {
+    return `<p class="empty">No activity in this range</p>`;
+  }
+  let content = `<div class="columns">`;
+  points.forEach((n: ChartPoint) => {
+    const height = Math.round((n.value / max) * 100);
+    content += `<div class="column" title="${escapeHtml(n.title)}">`;
+    content += `<div class="column-bar-area"><div class="column-bar" style="height: ${height}%"></div></div>`;
+    content += `<div class="column-label">${escapeHtml(n.label)}</div>`;
+    content += `</div>`;
+  });
+  content += `</div>`;
+  return content;
+}
+
+/**
+ * Horizontal bars, the labels are truncated with an ellipsis
+ */
+function buildBarChart(points: ChartPoint[]) {
+  const max = Math.max(...points.map((n) => n.value), 0);
+  if (!max) {
+    return `<p class="empty">No activity in this range</p>`;
+  }
+  let content = `<div class="bars">`;
+  points.forEach((n: ChartPoint) => {
+    const width = Math.max(Math.round((n.value / max) * 100), 1);
+    content += `<div class="bar-row" title="${escapeHtml(n.title)}">`;
+    content += `<div class="bar-label">${escapeHtml(n.label)}</div>`;
+    content += `<div class="bar-area"><div class="bar" style="width: ${width}%"></div></div>`;
+    content += `<div class="bar-value">${escapeHtml(n.valueLabel)}</div>`;
+    content += `</div>`;
+  });
+  content += `</div>`;
+  return content;
+}
+
+/**
+ * A row per day of the week and a cell per hour, the cell
+ * opacity shows the active minutes relative to the busiest hour
+ */
+function buildHeatmap(heatmap: ActivityHeatmap) {
+  let max = 0;
+  heatmap.minutes.forEach((hours) => {
+    max = Math.max(max, ...hours);
+  });
+  if (!max) {
+    return `<p class="empty">No activity in this range</p>`;
+  }
+  let content = `<table class="heatmap"><tr><th></th>`;
+  for (let hour = 0; hour < 24; hour++) {
+    content += `<th>${hour % 3 === 0 ? moment().hour(hour).format("ha") : ""}</th>`;
+  }
+  content += `</tr>`;
+  for (let day = 0; day < 7; day++) {
+    const dayName = moment().day(day).format("ddd");
+    content += `<tr><th>${dayName}</th>`;
+    heatmap.minutes[day].forEach((minutes, hour) => {
+      const opacity = minutes > 0 ? Math.max(minutes / max, 0.1).toFixed(2) : "0";
+      const keystrokes = formatNumber(heatmap.keystrokes[day][hour]);
+      const title = `${dayName} ${moment().hour(hour).format("ha")}: ${humanizeMinutes(minutes)}, ${keystrokes} keystrokes`;
+      content += `<td title="${escapeHtml(title)}"><div class="cell" style="opacity: ${opacity}"></div></td>`;
+    });
+    content += `</tr>`;
+  }
+  content += `</table>`;
+  return content;
+}
+
+function buildPage(body: string, rangeDays: number) {
+  const nonce = getNonce();
+  const rangeOptions = [7, 14, 30, 90]
+    .map((days) => `<option value="${days}"${days === rangeDays ? " selected" : ""}>Last ${days} days</option>`)
+    .join("");
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Code Time</title>
+  <style>${getStyles()}</style>
+</head>
+<body>
+  <header>
+    <h1>Code Time</h1>
+    <div class="actions">
+      <select id="range">${rangeOptions}</select>
+      <button id="viewText">View as text</button>
+    </div>
+  </header>
+  ${body}
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    document.getElementById("range").addEventListener("change", (e) => {
+      vscode.postMessage({ command: "setRange", days: e.target.value });
+    });
+    document.getElementById("viewText").addEventListener("click", () => {
+      vscode.postMessage({ command: "viewText" });
+    });
+  </script>
+</body>
+</html>`;
+}
+
+// the vscode theme variables keep the charts readable in light and dark themes
+function getStyles() {
+  return `
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 20px 20px; }
+    body.vscode-light { --ct-grid: rgba(0, 0, 0, 0.1); --ct-bar: var(--vscode-charts-blue, #1a85ff); }
+    body.vscode-dark, body.vscode-high-contrast { --ct-grid: rgba(255, 255, 255, 0.12); --ct-bar: var(--vscode-charts-blue, #3794ff); }
+    header { display: flex; align-items: center; justify-content: space-between; }
+    h1 { font-weight: normal; }
+    h2 { font-size: 1.1em; font-weight: 600; margin: 24px 0 8px; }
+    select, button { color: var(--vscode-button-foreground); background: var(--vscode-button-background); border: none; padding: 4px 10px; margin-left: 6px; }
+    select { color: var(--vscode-dropdown-foreground); background: var(--vscode-dropdown-background); border: 1px solid var(--vscode-dropdown-border, transparent); }
+    button:hover { background: var(--vscode-button-hoverBackground); cursor: pointer; }
+    .cards { display: flex; flex-wrap: wrap; gap: 12px; }
+    .card { flex: 1; min-width: 120px; padding: 12px; border: 1px solid var(--ct-grid); border-radius: 4px; }
+    .card-value { font-size: 1.4em; }
+    .card-label, .column-label, .bar-value, .empty { color: var(--vscode-descriptionForeground); font-size: 0.9em; }
+    .columns { display: flex; align-items: flex-end; height: 160px; border-bottom: 1px solid var(--ct-grid); gap: 4px; }
+    .column { flex: 1; display: flex; flex-direction: column; height: 100%; min-width: 0; }
+    .column-bar-area { flex: 1; display: flex; align-items: flex-end; }
+    .column-bar { width: 100%; background: var(--ct-bar); min-height: 1px; }
+    .column-label { text-align: center; white-space: nowrap; overflow: hidden; padding-top: 4px; }
+    .bar-row { display: flex; align-items: center; margin: 4px 0; }
+    .bar-label { width: 180px; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; padding-right: 8px; }
+    .bar-area { flex: 1; background: var(--ct-grid); height: 14px; }
+    .bar { height: 100%; background: var(--ct-bar); }
+    .bar-value { width: 90px; text-align: right; }
+    .heatmap { border-collapse: separate; border-spacing: 2px; width: 100%; table-layout: fixed; }
+    .heatmap th { font-weight: normal; font-size: 0.8em; color: var(--vscode-descriptionForeground); text-align: left; }
+    .heatmap td { background: var(--ct-grid); height: 18px; padding: 0; }
+    .heatmap .cell { width: 100%; height: 100%; background: var(--ct-bar); }
+  `;
+}
+
+function escapeHtml(str: string) {
+  return (str || "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function getNonce() {
+  const chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
+  let nonce = "";
+  for (let i = 0; i < 32; i++) {
+    nonce += chars.charAt(Math.floor(Math.random() * chars.length));
+  }
+  return nonce;
+}
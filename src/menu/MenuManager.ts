@@ -12,11 +12,13 @@ import {
   launchLogin,
   isStatusBarTextVisible,
   getItem,
+  getWebAppUrl,
+  isLocalOnlyMode,
 } from "../Util";
 import {
   writeCodeTimeMetricsDashboard
 } from "../DataController";
-import { launch_url, LOGIN_LABEL } from "../Constants";
+import { LOGIN_LABEL } from "../Constants";
 import { ProgressManager } from "../managers/ProgressManager";
 
 /**
@@ -53,12 +55,13 @@ export function showQuickPick(pickOptions): any {
 }
 
 export async function buildWebDashboardUrl() {
-  return launch_url;
+  return getWebAppUrl();
 }
 
 export async function showMenuOptions() {
 
   const email = getItem("name");
+  const localOnly = isLocalOnlyMode();
 
   // {placeholder, items: [{label, description, url, details, tooltip},...]}
   let kpmMenuOptions = {
@@ -74,7 +77,7 @@ export async function showMenuOptions() {
   });
 
   let loginMsgDetail = "Finish creating your account and see rich data visualizations.";
-  if (!email) {
+  if (!email && !localOnly) {
     kpmMenuOptions.items.push({
       label: LOGIN_LABEL,
       detail: loginMsgDetail,
@@ -110,7 +113,7 @@ export async function showMenuOptions() {
     command: "codetime.sendFeedback",
   });
 
-  if (email) {
+  if (email && !localOnly) {
     kpmMenuOptions.items.push({
       label: "Web dashboard",
       detail: "See rich data visualizations in the web app",
@@ -1,10 +1,16 @@
 import { window, QuickPickItem } from "vscode";
 import { softwareGet, isResponseOk } from "../http/HttpClient";
-import { getItem } from "../Util";
+import { getItem, getWorkspaceFolders } from "../Util";
 import Checkbox from "../model/checkbox";
+import DayHistory from "../model/DayHistory";
+import { getDayHistory } from "../storage/HistoryData";
 import {
     displayProjectCommitsDashboardByRangeType,
     displayProjectCommitsDashboardByStartEnd,
+    displayDailyReportDashboard,
+    displayTimesheet,
+    displayTicketReport,
+    displayTicketCsv,
 } from "./ReportManager";
 
 const moment = require("moment-timezone");
@@ -76,25 +82,88 @@ export class ProjectCommitManager {
     }
 
     async launchDailyReportMenuFlow() {
-        this.resetDateRange();
+        const selection = await this.getLocalReportSelection();
+        if (selection) {
+            displayDailyReportDashboard(
+                selection.type,
+                selection.projectDirs,
+                selection.local_start,
+                selection.local_end
+            );
+        }
+        return null;
+    }
 
-        const pickItems: QuickPickItem[] = this.items.map((item) => {
-            return {
-                label: item.label,
-                value: item.value,
-            } as QuickPickItem;
-        });
+    async launchTimesheetMenuFlow() {
+        const selection = await this.getLocalReportSelection();
+        if (selection) {
+            displayTimesheet(
+                selection.type,
+                selection.projectDirs,
+                selection.local_start,
+                selection.local_end
+            );
+        }
+        return null;
+    }
 
-        const pick = await window.showQuickPick(pickItems, {
-            placeHolder: "Select a date range",
-        });
+    async launchTicketReportMenuFlow() {
+        const selection = await this.getLocalReportSelection();
+        if (selection) {
+            displayTicketReport(
+                selection.type,
+                selection.projectDirs,
+                selection.local_start,
+                selection.local_end
+            );
+        }
+        return null;
+    }
 
-        if (pick && pick.label) {
-            return this.launchProjectSelectionMenu(pick["value"]);
+    async launchTicketExportMenuFlow() {
+        const selection = await this.getLocalReportSelection();
+        if (selection) {
+            displayTicketCsv(
+                selection.type,
+                selection.projectDirs,
+                selection.local_start,
+                selection.local_end
+            );
         }
         return null;
     }
 
+    /**
+     * Prompts for the date range and the local projects of the reports
+     * that are built from the local history
+     */
+    private async getLocalReportSelection() {
+        this.resetDateRange();
+
+        await this.getSelectedDateRange();
+        if (!this.hasDateSelected()) {
+            // the menu selection was cancelled
+            return null;
+        }
+
+        const picks = await this.getSelectedProjects(this.getLocalProjectCheckboxes());
+        if (!picks || !picks.length) {
+            return null;
+        }
+
+        // the values are the project directories
+        const projectDirs = [];
+        picks.forEach((item) => {
+            projectDirs.push(...item["value"]);
+        });
+        return {
+            type: this.selectedRangeType,
+            projectDirs,
+            local_start: this.local_start,
+            local_end: this.local_end,
+        };
+    }
+
     async launchViewProjectSummaryMenuFlow() {
         this.resetDateRange();
 
@@ -271,6 +340,32 @@ export class ProjectCommitManager {
         return checkboxes;
     }
 
+    /**
+     * Returns the projects found in the local history and the
+     * current workspace folders
+     */
+    getLocalProjectCheckboxes(): Checkbox[] {
+        const projectMap = {};
+        getDayHistory().forEach((n: DayHistory) => {
+            if (n.project && n.project.directory) {
+                projectMap[n.project.directory] = n.project.name;
+            }
+        });
+        getWorkspaceFolders().forEach((folder) => {
+            projectMap[folder.uri.fsPath] = folder.name;
+        });
+
+        return Object.keys(projectMap).map((directory, lineNumber) => {
+            const cb: Checkbox = new Checkbox();
+            cb.label = projectMap[directory] || directory;
+            cb.text = directory;
+            cb.checked = true;
+            cb.lineNumber = lineNumber;
+            cb.value = [directory];
+            return cb;
+        });
+    }
+
     async showDateInputBox(
         value: string,
         placeHolder: string,
@@ -2,13 +2,29 @@ import {
   writeProjectContributorCommitDashboardFromGitLogs,
   writeProjectCommitDashboardByRangeType,
   writeProjectCommitDashboardByStartEnd,
+  writeDailyReportDashboard,
+  writeStandupReport,
+  writeTimesheet,
+  writeTicketReport,
+  writeTicketCsv,
 } from "../DataController";
 import {
   getProjectCodeSummaryFile,
-  getProjectContributorCodeSummaryFile
+  getProjectContributorCodeSummaryFile,
+  getDailyReportSummaryFile,
+  getStandupFile,
+  getTimesheetCsvFile,
+  getTimesheetJsonFile,
+  getTicketReportFile,
+  getTicketCsvFile,
+  isLocalOnlyMode,
 } from "../Util";
-import { workspace, window, ViewColumn, ProgressLocation } from "vscode";
+import { workspace, window, ViewColumn, ProgressLocation, env } from "vscode";
 import { ProgressManager } from "../managers/ProgressManager";
+import { TrackerManager } from "../managers/TrackerManager";
+import { KpmManager } from "../managers/KpmManager";
+import { PrivacyManager } from "../managers/PrivacyManager";
+import KeystrokeStats from "../model/KeystrokeStats";
 
 export async function displayProjectCommitsDashboardByStartEnd(start, end, projectIds = []) {
   window.withProgress(
@@ -63,6 +79,187 @@ function openProjectCommitDocument() {
   });
 }
 
+export async function displayDailyReportDashboard(
+  type = "yesterday",
+  projectDirs = [],
+  local_start = 0,
+  local_end = 0
+) {
+  window.withProgress(
+    {
+      location: ProgressLocation.Notification,
+      title: "Loading daily report...",
+      cancellable: false,
+    },
+    async (progress, token) => {
+      const progressMgr: ProgressManager = ProgressManager.getInstance();
+      progressMgr.doneWriting = false;
+      progressMgr.reportProgress(progress, 20);
+      // 1st write the daily report file
+      await writeDailyReportDashboard(type, projectDirs, local_start, local_end);
+      progressMgr.doneWriting = true;
+      const filePath = getDailyReportSummaryFile();
+      workspace.openTextDocument(filePath).then((doc) => {
+        // only focus if it's not already open
+        window.showTextDocument(doc, ViewColumn.One, false).then((e) => {
+          // done
+        });
+      });
+      progress.report({ increment: 100 });
+    }
+  );
+}
+
+export async function displayStandupReport() {
+  window.withProgress(
+    {
+      location: ProgressLocation.Notification,
+      title: "Generating standup...",
+      cancellable: false,
+    },
+    async (progress, token) => {
+      const progressMgr: ProgressManager = ProgressManager.getInstance();
+      progressMgr.doneWriting = false;
+      progressMgr.reportProgress(progress, 20);
+      const content = await writeStandupReport();
+      progressMgr.doneWriting = true;
+      workspace.openTextDocument(getStandupFile()).then((doc) => {
+        window.showTextDocument(doc, ViewColumn.One, false);
+      });
+      progress.report({ increment: 100 });
+
+      // ready to paste into a chat or ticket
+      await env.clipboard.writeText(content);
+      window.showInformationMessage("The standup note was copied to the clipboard.");
+    }
+  );
+}
+
+export async function displayTimesheet(
+  type = "lastWeek",
+  projectDirs = [],
+  local_start = 0,
+  local_end = 0
+) {
+  window.withProgress(
+    {
+      location: ProgressLocation.Notification,
+      title: "Exporting timesheet...",
+      cancellable: false,
+    },
+    async (progress, token) => {
+      const progressMgr: ProgressManager = ProgressManager.getInstance();
+      progressMgr.doneWriting = false;
+      progressMgr.reportProgress(progress, 20);
+      const entries = await writeTimesheet(type, projectDirs, local_start, local_end);
+      progressMgr.doneWriting = true;
+      workspace.openTextDocument(getTimesheetCsvFile()).then((doc) => {
+        window.showTextDocument(doc, ViewColumn.One, false);
+      });
+      progress.report({ increment: 100 });
+      window.showInformationMessage(
+        `Exported ${entries.length} timesheet entries to ${getTimesheetCsvFile()} and ${getTimesheetJsonFile()}`
+      );
+    }
+  );
+}
+
+export async function displayTicketReport(
+  type = "lastWeek",
+  projectDirs = [],
+  local_start = 0,
+  local_end = 0
+) {
+  window.withProgress(
+    {
+      location: ProgressLocation.Notification,
+      title: "Loading time per ticket...",
+      cancellable: false,
+    },
+    async (progress, token) => {
+      const progressMgr: ProgressManager = ProgressManager.getInstance();
+      progressMgr.doneWriting = false;
+      progressMgr.reportProgress(progress, 20);
+      await writeTicketReport(type, projectDirs, local_start, local_end);
+      progressMgr.doneWriting = true;
+      workspace.openTextDocument(getTicketReportFile()).then((doc) => {
+        window.showTextDocument(doc, ViewColumn.One, false);
+      });
+      progress.report({ increment: 100 });
+    }
+  );
+}
+
+export async function displayTicketCsv(
+  type = "lastWeek",
+  projectDirs = [],
+  local_start = 0,
+  local_end = 0
+) {
+  window.withProgress(
+    {
+      location: ProgressLocation.Notification,
+      title: "Exporting time per ticket...",
+      cancellable: false,
+    },
+    async (progress, token) => {
+      const progressMgr: ProgressManager = ProgressManager.getInstance();
+      progressMgr.doneWriting = false;
+      progressMgr.reportProgress(progress, 20);
+      const ticketTimes = await writeTicketCsv(type, projectDirs, local_start, local_end);
+      progressMgr.doneWriting = true;
+      workspace.openTextDocument(getTicketCsvFile()).then((doc) => {
+        window.showTextDocument(doc, ViewColumn.One, false);
+      });
+      progress.report({ increment: 100 });
+      window.showInformationMessage(`Exported ${ticketTimes.length} ticket worklog entries to ${getTicketCsvFile()}`);
+    }
+  );
+}
+
+/**
+ * Opens the events that would be sent for the active file and its
+ * keystrokes that haven't been sent yet, with the privacy mode applied
+ */
+export async function displayPrivacyPreview() {
+  const tracker: TrackerManager = TrackerManager.getInstance();
+  const editor = window.activeTextEditor;
+  const payload: KeystrokeStats = editor
+    ? KpmManager.getInstance().getCurrentKeystrokeStats(editor.document.fileName)
+    : null;
+
+  const notes: string[] = [];
+  if (isLocalOnlyMode()) {
+    notes.push("Local-only mode is on, none of these events are sent.");
+  }
+  if (!editor) {
+    notes.push("Open a file to preview its editor event.");
+  }
+  if (editor && !payload) {
+    notes.push("The file has no unsent keystrokes. Edit it to preview its code time events.");
+  }
+
+  const preview = {
+    privacy_mode: PrivacyManager.getInstance().getPrivacyMode(),
+    notes,
+    editor_event: editor
+      ? hideAuthToken(await tracker.getEditorEvent("file", "open", editor.document))
+      : null,
+    codetime_events: payload ? (await tracker.getCodeTimeEvents(payload)).map(hideAuthToken) : [],
+  };
+
+  const doc = await workspace.openTextDocument({
+    language: "json",
+    content: JSON.stringify(preview, null, 2),
+  });
+  window.showTextDocument(doc, ViewColumn.One, false);
+}
+
+function hideAuthToken(event: any) {
+  // the token is sent but it doesn't need to be shown
+  return event.jwt ? { ...event, jwt: "<auth token>" } : event;
+}
+
 export async function displayProjectContributorCommitsDashboard(identifier) {
   // 1st write the code time metrics dashboard file
   await writeProjectContributorCommitDashboardFromGitLogs(identifier);
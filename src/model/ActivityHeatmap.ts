@@ -0,0 +1,15 @@
+// active minutes and keystrokes bucketed by day of week (0 is Sunday) and hour of day
+export default class ActivityHeatmap {
+    start_day: string = "";
+    end_day: string = "";
+    minutes: number[][] = buildGrid();
+    keystrokes: number[][] = buildGrid();
+}
+
+function buildGrid(): number[][] {
+    const grid: number[][] = [];
+    for (let day = 0; day < 7; day++) {
+        grid.push(new Array(24).fill(0));
+    }
+    return grid;
+}
@@ -0,0 +1,26 @@
+// one keystroke payload in the activity log
+export default class ActivityRecord {
+    start: number = 0;
+    end: number = 0;
+    local_start: number = 0;
+    local_end: number = 0;
+    timezone: string = "";
+    keystrokes: number = 0;
+    lines_added: number = 0;
+    lines_removed: number = 0;
+    // the active code time attributed to this payload
+    active_seconds: number = 0;
+    project_directory: string = "";
+    project_name: string = "";
+    // the checked out branch of the project's repo
+    branch: string = "";
+    files: ActivityFile[] = [];
+}
+
+export class ActivityFile {
+    fsPath: string = "";
+    syntax: string = "";
+    keystrokes: number = 0;
+    lines_added: number = 0;
+    lines_removed: number = 0;
+}
@@ -0,0 +1,9 @@
+// a checkout of another branch, detected by the change of .git/HEAD
+export default class BranchSwitch {
+    // unix seconds
+    timestamp: number = 0;
+    local_timestamp: number = 0;
+    repo_directory: string = "";
+    from_branch: string = "";
+    to_branch: string = "";
+}
@@ -0,0 +1,13 @@
+// the active code time of one branch of a project
+export default class BranchTime {
+    project_directory: string = "";
+    project_name: string = "";
+    branch: string = "";
+    active_seconds: number = 0;
+    keystrokes: number = 0;
+    lines_added: number = 0;
+    lines_removed: number = 0;
+    // unix seconds of the first and last payload on the branch
+    first_start: number = 0;
+    last_end: number = 0;
+}
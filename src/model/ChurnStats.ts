@@ -0,0 +1,10 @@
+// the churn of a file, an author or a whole project
+export default class ChurnStats {
+    // the full file path, the author email or the project directory
+    name: string = "";
+    commits: number = 0;
+    lines_added: number = 0;
+    lines_deleted: number = 0;
+    // the deleted or rewritten lines that were written within the rework days
+    rework_lines: number = 0;
+}
@@ -0,0 +1,13 @@
+import ChurnStats from "./ChurnStats";
+
+// the churn and rework of a repo over the last number of days
+export default class ChurnSummary {
+    project_directory: string = "";
+    days: number = 0;
+    rework_days: number = 0;
+    totals: ChurnStats = new ChurnStats();
+    files: ChurnStats[] = [];
+    authors: ChurnStats[] = [];
+    // true when only part of the deleted lines could be blamed
+    partial: boolean = false;
+}
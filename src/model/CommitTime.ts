@@ -0,0 +1,14 @@
+export default class CommitTime {
+    public commit_id: string = "";
+    public repo_directory: string = "";
+    // unix seconds of the commit
+    public timestamp: number = 0;
+    public email: string = "";
+    public message: string = "";
+    // unix seconds of the previous commit on the branch, the time after it is counted
+    public window_start: number = 0;
+    public active_seconds: number = 0;
+    public keystrokes: number = 0;
+    // the number of the commit's files that had activity
+    public files_with_activity: number = 0;
+}
@@ -0,0 +1,21 @@
+import Project from "./Project";
+import FileHistory from "./FileHistory";
+import LanguageHistory from "./LanguageHistory";
+
+// the aggregated metrics of one project for one day
+export default class DayHistory {
+    day: string = "";
+    project: Project = new Project();
+    // active code time
+    session_seconds: number = 0;
+    // total focused editor time
+    editor_seconds: number = 0;
+    file_seconds: number = 0;
+    keystrokes: number = 0;
+    lines_added: number = 0;
+    lines_removed: number = 0;
+    files_changed: number = 0;
+    // the files with the most keystrokes
+    top_files: FileHistory[] = [];
+    languages: LanguageHistory[] = [];
+}
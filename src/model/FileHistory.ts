@@ -0,0 +1,10 @@
+// the metrics of one file within a day history entry
+export default class FileHistory {
+    name: string = "";
+    fsPath: string = "";
+    syntax: string = "";
+    keystrokes: number = 0;
+    lines_added: number = 0;
+    lines_removed: number = 0;
+    duration_seconds: number = 0;
+}
@@ -0,0 +1,6 @@
+export default class GitRepo {
+    public directory: string = "";
+    public name: string = "";
+    // repo, worktree or submodule
+    public type: string = "repo";
+}
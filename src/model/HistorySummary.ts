@@ -0,0 +1,14 @@
+// totals of the day history entries within a range of days
+export default class HistorySummary {
+    start_day: string = "";
+    end_day: string = "";
+    // number of days with recorded activity
+    days: number = 0;
+    session_seconds: number = 0;
+    editor_seconds: number = 0;
+    file_seconds: number = 0;
+    keystrokes: number = 0;
+    lines_added: number = 0;
+    lines_removed: number = 0;
+    files_changed: number = 0;
+}
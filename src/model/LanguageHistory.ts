@@ -0,0 +1,9 @@
+// the metrics of the files of one language (the editor's languageId)
+export default class LanguageHistory {
+    language: string = "";
+    keystrokes: number = 0;
+    lines_added: number = 0;
+    lines_removed: number = 0;
+    duration_seconds: number = 0;
+    files: number = 0;
+}
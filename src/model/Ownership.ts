@@ -0,0 +1,19 @@
+// the share of the lines of a file or directory that one person owns
+export class Owner {
+    email: string = "";
+    lines: number = 0;
+    percent: number = 0;
+}
+
+// the owners of a file or directory, the most lines first
+export default class Ownership {
+    // the full path of the file or directory
+    name: string = "";
+    is_directory: boolean = false;
+    lines: number = 0;
+    owners: Owner[] = [];
+    // the fewest people that own more than half of the lines
+    bus_factor: number = 0;
+    // everyone that committed to it in the most recent commits
+    contributors: number = 0;
+}
@@ -0,0 +1,15 @@
+import Ownership from "./Ownership";
+
+// the ownership of a repo's files and directories
+export default class OwnershipSummary {
+    project_directory: string = "";
+    // the top level folders, the files in the repo root are in the repo directory
+    folders: Ownership[] = [];
+    directories: Ownership[] = [];
+    files: Ownership[] = [];
+    // the full paths of the files only one person ever committed to, of the files
+    // that only one person changed in the most recent commits
+    single_owner_files: string[] = [];
+    // true when there were more files than could be blamed or checked for a single owner
+    partial: boolean = false;
+}
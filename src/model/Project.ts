@@ -4,4 +4,6 @@ export default class Project {
     public name?: string;
     public identifier: string;
     public resource: {};
+    // the branch checked out when the payload was captured
+    public branch?: string;
 }
@@ -0,0 +1,10 @@
+export default class RemoteInfo {
+    // github, gitlab, bitbucket, azure or unknown
+    public provider: string = "unknown";
+    public host: string = "";
+    // the owner, or the group path for nested gitlab groups, or the azure org/project
+    public owner: string = "";
+    public repo_name: string = "";
+    // the browser url of the repo, without a trailing slash
+    public web_url: string = "";
+}
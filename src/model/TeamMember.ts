@@ -2,4 +2,6 @@ export default class TeamMember {
     public name: string;
     public email: string;
     public identifier: string;
+    // every email the member committed with, including the email above
+    public emails: string[] = [];
 }
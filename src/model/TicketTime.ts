@@ -0,0 +1,12 @@
+// the active code time of one ticket in one project for one day
+export default class TicketTime {
+    // the ticket id, empty for the time that isn't linked to a ticket
+    ticket: string = "";
+    day: string = "";
+    project_name: string = "";
+    project_directory: string = "";
+    // the branches the time was spent on
+    branches: string[] = [];
+    active_seconds: number = 0;
+    keystrokes: number = 0;
+}
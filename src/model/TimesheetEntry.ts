@@ -0,0 +1,13 @@
+// one row of the exported timesheet, the time of one project for one day
+export default class TimesheetEntry {
+    date: string = "";
+    // HH:mm:ss of the first activity of the day
+    start_time: string = "";
+    duration_seconds: number = 0;
+    hours: number = 0;
+    client: string = "";
+    project: string = "";
+    project_directory: string = "";
+    description: string = "";
+    email: string = "";
+}
@@ -81,6 +81,8 @@ export class FileChangeInfo {
   local_end: number = 0;
   update_count: number = 0;
   duration_seconds: number = 0;
+  // the branch of the file's repo when the payload was captured
+  branch: string = "";
   documentChangeInfo: DocumentChangeInfo = new DocumentChangeInfo();
 }
 
@@ -118,6 +120,19 @@ export class CommitChangeStats {
   commitCount: number = 0;
 }
 
+export class CommitInfo {
+  commitId: string = "";
+  // unix seconds of the commit
+  timestamp: number = 0;
+  email: string = "";
+  message: string = "";
+  insertions: number = 0;
+  deletions: number = 0;
+  fileCount: number = 0;
+  // the full paths of the files the commit changed, only set by getBranchCommitFiles
+  files: string[] = [];
+}
+
 // example: {type: "window", name: "close", timestamp: 1234,
 // timestamp_local: 1233, description: "OnboardPrompt"}
 export class CodeTimeEvent {
@@ -0,0 +1,326 @@
+import { workspace } from "vscode";
+import { getGitRootForFile } from "../Util";
+import { getCommandResult, getRepoCacheId, parseBlameAuthorMail } from "./GitUtil";
+import { getIdentityEmail, getIdentityEmailMap } from "./GitIdentity";
+import { CacheManager } from "../cache/CacheManager";
+import ChurnStats from "../model/ChurnStats";
+import ChurnSummary from "../model/ChurnSummary";
+
+const path = require("path");
+const moment = require("moment-timezone");
+
+const cacheMgr: CacheManager = CacheManager.getInstance();
+const cacheTimeoutSeconds = 60 * 30;
+
+// the number of days of history that are analyzed
+export const CHURN_DAYS = 30;
+const DEFAULT_REWORK_DAYS = 21;
+// each deleted range is a git blame, the most recent ones are blamed first
+const MAX_BLAMED_RANGES = 200;
+// the most recent commits within the days that are analyzed
+const MAX_HISTORY_COMMITS = 1000;
+// the files that a commit deleted more lines of aren't diffed or blamed
+const MAX_FILE_DELETED_LINES = 500;
+
+// the files a commit deleted lines of, from its numstat
+class CommitDeletions {
+  timestamp: number = 0;
+  commitId: string = "";
+  files: string[] = [];
+}
+
+export class DeletedRange {
+  timestamp: number = 0;
+  commitId: string = "";
+  file: string = "";
+  start: number = 0;
+  count: number = 0;
+}
+
+/**
+ * Returns the churn of the repo over the last CHURN_DAYS days. The lines
+ * added and deleted come from "git log --numstat". The deleted lines of
+ * each commit are blamed on the parent commit, the ones that were written
+ * within the codetime.reworkDays setting are counted as rework of the
+ * person that wrote them.
+ * @param projectDir
+ */
+export async function getChurnSummary(projectDir: string): Promise<ChurnSummary> {
+  const repoRoot = getGitRootForFile(projectDir);
+  if (!repoRoot) {
+    return null;
+  }
+
+  const reworkDays: number = getReworkDays();
+  const cacheId = getRepoCacheId("churn", repoRoot, CHURN_DAYS, reworkDays);
+
+  let summary: ChurnSummary = cacheMgr.get(cacheId);
+  // return from cache if we have it
+  if (summary) {
+    return summary;
+  }
+
+  summary = new ChurnSummary();
+  summary.project_directory = repoRoot;
+  summary.days = CHURN_DAYS;
+  summary.rework_days = reworkDays;
+  summary.totals.name = repoRoot;
+
+  const since = moment().subtract(CHURN_DAYS, "days").unix();
+  // %aE honors the .mailmap
+  const format = "--format=COMMIT:%H,%ct,%aE";
+  const emailMap = await getIdentityEmailMap(repoRoot);
+  const numstatList = await getCommandResult(
+    [
+      "log",
+      "--no-merges",
+      "--no-renames",
+      "--numstat",
+      format,
+      `--since=${since}`,
+      `--max-count=${MAX_HISTORY_COMMITS}`,
+    ],
+    repoRoot
+  );
+  if (!numstatList) {
+    return null;
+  }
+
+  const fileMap = {};
+  const authorMap = {};
+  const deletionsList: CommitDeletions[] = [];
+  let skippedDeletions = false;
+  let email = "";
+  let deletions: CommitDeletions = null;
+  numstatList.forEach((line: string) => {
+    if (line.indexOf("COMMIT:") === 0) {
+      const parts = line.substring("COMMIT:".length).split(",");
+      deletions = new CommitDeletions();
+      deletions.commitId = parts[0];
+      deletions.timestamp = parseInt(parts[1], 10) || 0;
+      deletionsList.push(deletions);
+      email = getIdentityEmail(emailMap, parts[2]);
+      summary.totals.commits += 1;
+      getOrCreateStats(authorMap, email).commits += 1;
+      return;
+    }
+    // added, deleted and the path separated by tabs, binary files have a "-"
+    const match = line.match(/^(\d+)\t(\d+)\t(.+)$/);
+    if (!match) {
+      return;
+    }
+    const added = parseInt(match[1], 10);
+    const deleted = parseInt(match[2], 10);
+    const fileStats: ChurnStats = getOrCreateStats(fileMap, path.join(repoRoot, match[3].trim()));
+    const authorStats: ChurnStats = getOrCreateStats(authorMap, email);
+    [fileStats, authorStats, summary.totals].forEach((stats: ChurnStats) => {
+      stats.lines_added += added;
+      stats.lines_deleted += deleted;
+    });
+    fileStats.commits += 1;
+    if (deleted > MAX_FILE_DELETED_LINES || match[3].indexOf('"') === 0) {
+      // too large to blame, or a quoted path that git can't be given back
+      skippedDeletions = true;
+    } else if (deleted > 0 && deletions) {
+      deletions.files.push(match[3].trim());
+    }
+  });
+
+  const ranges: DeletedRange[] = await getDeletedRanges(repoRoot, deletionsList);
+  summary.partial = !ranges || skippedDeletions || ranges.length > MAX_BLAMED_RANGES;
+  const maxAgeSeconds = reworkDays * 60 * 60 * 24;
+  const blamedRanges = (ranges || []).slice(0, MAX_BLAMED_RANGES);
+  for (let i = 0; i < blamedRanges.length; i++) {
+    const range: DeletedRange = blamedRanges[i];
+    const reworkAuthors = await getReworkAuthors(repoRoot, range, maxAgeSeconds, emailMap);
+    // the rework counts against the person that wrote the lines, not the one that deleted them
+    Object.keys(reworkAuthors).forEach((author) => {
+      const reworkLines = reworkAuthors[author];
+      [
+        getOrCreateStats(fileMap, path.join(repoRoot, range.file)),
+        getOrCreateStats(authorMap, author),
+        summary.totals,
+      ].forEach((stats: ChurnStats) => {
+        stats.rework_lines += reworkLines;
+      });
+    });
+  }
+
+  summary.files = Object.keys(fileMap).map((key) => fileMap[key]);
+  summary.authors = Object.keys(authorMap)
+    .map((key) => authorMap[key])
+    .sort((a: ChurnStats, b: ChurnStats) => b.rework_lines - a.rework_lines || b.lines_added - a.lines_added);
+
+  cacheMgr.set(cacheId, summary, cacheTimeoutSeconds);
+  return summary;
+}
+
+/**
+ * Returns the churn summary of the repo if it's cached, or null if it
+ * has to be computed
+ * @param projectDir
+ */
+export function getCachedChurnSummary(projectDir: string): ChurnSummary {
+  const repoRoot = getGitRootForFile(projectDir);
+  if (!repoRoot) {
+    return null;
+  }
+  return cacheMgr.get(getRepoCacheId("churn", repoRoot, CHURN_DAYS, getReworkDays())) || null;
+}
+
+/**
+ * Returns the percentage of the added lines that were rewritten or
+ * deleted soon after, from 0 to 100
+ * @param stats
+ */
+export function getReworkPercent(stats: ChurnStats): number {
+  if (!stats || !stats.lines_added) {
+    return 0;
+  }
+  return Math.min(100, Math.round((stats.rework_lines / stats.lines_added) * 100));
+}
+
+/**
+ * Returns the files with the most rework, then the most churn
+ * @param summary
+ * @param limit
+ */
+export function getHotspots(summary: ChurnSummary, limit: number = 10): ChurnStats[] {
+  if (!summary) {
+    return [];
+  }
+  return summary.files
+    .filter((n: ChurnStats) => n.rework_lines > 0 || n.commits > 1)
+    .sort(
+      (a: ChurnStats, b: ChurnStats) =>
+        b.rework_lines - a.rework_lines ||
+        b.lines_added + b.lines_deleted - (a.lines_added + a.lines_deleted)
+    )
+    .slice(0, limit);
+}
+
+/**
+ * Diffs the files each commit deleted lines of, the most recent commits
+ * first, until there are more deleted ranges than can be blamed. Returns
+ * null if git failed.
+ */
+async function getDeletedRanges(repoRoot: string, deletionsList: CommitDeletions[]): Promise<DeletedRange[]> {
+  const ranges: DeletedRange[] = [];
+  for (let i = 0; i < deletionsList.length && ranges.length <= MAX_BLAMED_RANGES; i++) {
+    const deletions: CommitDeletions = deletionsList[i];
+    if (!deletions.files.length) {
+      continue;
+    }
+    const resultList = await getCommandResult(
+      [
+        "show",
+        "--no-renames",
+        "--unified=0",
+        "--format=COMMIT:%H,%ct",
+        deletions.commitId,
+        "--",
+        ...deletions.files,
+      ],
+      repoRoot
+    );
+    if (!resultList) {
+      return null;
+    }
+    ranges.push(...parseDeletedRanges(resultList));
+  }
+  return ranges;
+}
+
+/**
+ * Parses the zero context hunks of "git log -p" or "git show" into the
+ * line ranges each commit deleted from its parent, in the order of the
+ * commits
+ * @param resultList the lines of the patch output, each commit starts with "COMMIT:<id>,<timestamp>"
+ */
+export function parseDeletedRanges(resultList: string[]): DeletedRange[] {
+  const ranges: DeletedRange[] = [];
+  let commitId = "";
+  let timestamp = 0;
+  let oldFile = "";
+  let inFileHeader = false;
+  resultList.forEach((line: string) => {
+    if (line.indexOf("COMMIT:") === 0) {
+      const parts = line.substring("COMMIT:".length).split(",");
+      commitId = parts[0];
+      timestamp = parseInt(parts[1], 10) || 0;
+      inFileHeader = false;
+    } else if (line.indexOf("diff --git ") === 0) {
+      oldFile = "";
+      inFileHeader = true;
+    } else if (inFileHeader && line.indexOf("--- ") === 0) {
+      // new files are "--- /dev/null"
+      oldFile = line.indexOf("--- a/") === 0 ? line.substring("--- a/".length) : "";
+    } else if (line.indexOf("@@ ") === 0) {
+      inFileHeader = false;
+      // @@ -start[,count] +start[,count] @@
+      const match = line.match(/^@@ -(\d+)(?:,(\d+))? \+/);
+      const count = match ? (match[2] !== undefined ? parseInt(match[2], 10) : 1) : 0;
+      if (oldFile && count > 0) {
+        const range: DeletedRange = new DeletedRange();
+        range.commitId = commitId;
+        range.timestamp = timestamp;
+        range.file = oldFile;
+        range.start = parseInt(match[1], 10);
+        range.count = count;
+        ranges.push(range);
+      }
+    }
+  });
+  return ranges;
+}
+
+/**
+ * Blames the deleted lines on the parent commit and returns the number
+ * of them that were written within the max age before the commit, by
+ * the merged email of their author
+ */
+async function getReworkAuthors(repoRoot: string, range: DeletedRange, maxAgeSeconds: number, emailMap) {
+  const reworkAuthors = {};
+  const resultList = await getCommandResult(
+    [
+      "blame",
+      "--line-porcelain",
+      "-L",
+      `${range.start},+${range.count}`,
+      `${range.commitId}^`,
+      "--",
+      range.file,
+    ],
+    repoRoot
+  );
+  if (!resultList) {
+    return reworkAuthors;
+  }
+  // every line lists its author-mail before its author-time
+  let author = "";
+  resultList.forEach((line: string) => {
+    if (line.indexOf("author-mail ") === 0) {
+      author = getIdentityEmail(emailMap, parseBlameAuthorMail(line));
+    } else if (line.indexOf("author-time ") === 0) {
+      const writtenAt = parseInt(line.substring("author-time ".length), 10) || 0;
+      if (range.timestamp - writtenAt <= maxAgeSeconds) {
+        reworkAuthors[author] = (reworkAuthors[author] || 0) + 1;
+      }
+    }
+  });
+  return reworkAuthors;
+}
+
+function getReworkDays(): number {
+  return workspace.getConfiguration("codetime").get("reworkDays") || DEFAULT_REWORK_DAYS;
+}
+
+function getOrCreateStats(statsMap, name: string): ChurnStats {
+  let stats: ChurnStats = statsMap[name];
+  if (!stats) {
+    stats = new ChurnStats();
+    stats.name = name;
+    statsMap[name] = stats;
+  }
+  return stats;
+}
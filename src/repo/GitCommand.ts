@@ -0,0 +1,134 @@
+const { spawn } = require("child_process");
+
+const DEFAULT_TIMEOUT_MILLIS = 1000 * 30;
+const DEFAULT_MAX_OUTPUT_BYTES = 1024 * 1024 * 20;
+
+export enum GitErrorType {
+  // git isn't installed or the directory doesn't exist
+  SpawnFailed = "spawn_failed",
+  Timeout = "timeout",
+  MaxOutputExceeded = "max_output_exceeded",
+  // git ran but returned a non zero exit code
+  ExitCode = "exit_code",
+}
+
+export class GitCommandError extends Error {
+  type: GitErrorType;
+  args: string[];
+  cwd: string;
+  exitCode: number;
+  stderr: string;
+
+  constructor(type: GitErrorType, message: string, args: string[], cwd: string) {
+    super(message);
+    this.name = "GitCommandError";
+    this.type = type;
+    this.args = args;
+    this.cwd = cwd;
+    this.exitCode = null;
+    this.stderr = "";
+  }
+}
+
+export class GitCommandOptions {
+  timeoutMillis?: number;
+  maxOutputBytes?: number;
+}
+
+/**
+ * Runs git with the arguments passed as is, without a shell, so file
+ * names and emails are never interpreted. Resolves with stdout or
+ * rejects with a GitCommandError.
+ * @param args the git arguments, i.e. ["log", "--pretty=%an", "--", fileName]
+ * @param cwd the directory to run git in
+ * @param options the timeout and max stdout size
+ */
+export function runGitCommand(
+  args: string[],
+  cwd: string,
+  options: GitCommandOptions = {}
+): Promise<string> {
+  const timeoutMillis = options.timeoutMillis || DEFAULT_TIMEOUT_MILLIS;
+  const maxOutputBytes = options.maxOutputBytes || DEFAULT_MAX_OUTPUT_BYTES;
+
+  return new Promise((resolve, reject) => {
+    const chunks: any[] = [];
+    const stderrChunks: any[] = [];
+    let outputBytes = 0;
+    let settled = false;
+    let timer = null;
+
+    const fail = (err: GitCommandError) => {
+      if (!settled) {
+        settled = true;
+        clearTimeout(timer);
+        reject(err);
+      }
+    };
+
+    let child;
+    try {
+      child = spawn("git", args, { cwd, windowsHide: true });
+    } catch (e) {
+      fail(new GitCommandError(GitErrorType.SpawnFailed, e.message, args, cwd));
+      return;
+    }
+
+    timer = setTimeout(() => {
+      child.kill();
+      fail(
+        new GitCommandError(
+          GitErrorType.Timeout,
+          `git ${args[0]} timed out after ${timeoutMillis}ms`,
+          args,
+          cwd
+        )
+      );
+    }, timeoutMillis);
+
+    child.stdout.on("data", (chunk) => {
+      outputBytes += chunk.length;
+      if (outputBytes > maxOutputBytes) {
+        child.kill();
+        fail(
+          new GitCommandError(
+            GitErrorType.MaxOutputExceeded,
+            `git ${args[0]} output exceeded ${maxOutputBytes} bytes`,
+            args,
+            cwd
+          )
+        );
+        return;
+      }
+      chunks.push(chunk);
+    });
+    child.stderr.on("data", (chunk) => {
+      stderrChunks.push(chunk);
+    });
+
+    child.on("error", (e) => {
+      fail(new GitCommandError(GitErrorType.SpawnFailed, e.message, args, cwd));
+    });
+
+    child.on("close", (exitCode) => {
+      if (settled) {
+        return;
+      }
+      if (exitCode !== 0) {
+        const err = new GitCommandError(
+          GitErrorType.ExitCode,
+          `git ${args[0]} exited with code ${exitCode}`,
+          args,
+          cwd
+        );
+        err.exitCode = exitCode;
+        err.stderr = Buffer.concat(stderrChunks).toString("utf8").trim();
+        fail(err);
+        return;
+      }
+      settled = true;
+      clearTimeout(timer);
+      resolve(Buffer.concat(chunks).toString("utf8"));
+    });
+  });
+}
@@ -0,0 +1,194 @@
+import { getContributorAliasFile, getFileDataArray, getGitRootForFile, normalizeGithubEmail } from "../Util";
+import { getCommandResult, getRepoCacheId } from "./GitUtil";
+import { CacheManager } from "../cache/CacheManager";
+import TeamMember from "../model/TeamMember";
+
+const fs = require("fs");
+
+const cacheMgr: CacheManager = CacheManager.getInstance();
+const cacheTimeoutSeconds = 60 * 10;
+
+/**
+ * Returns everyone that committed to the repo, one member per person. The
+ * names and emails are mapped by the repo's .mailmap, the GitHub noreply
+ * addresses are merged with the person's other email and the aliases in
+ * the contributorAliases.json file are merged with the email they belong to:
+ * [{ "name": "Jane Doe", "email": "jane@work.com", "aliases": ["jane@laptop.local"] }]
+ * @param projectDir
+ */
+export async function getContributorIdentities(projectDir): Promise<TeamMember[]> {
+  const repoRoot = getGitRootForFile(projectDir);
+  if (!repoRoot) {
+    return [];
+  }
+
+  // editing the alias file changes the identities
+  const cacheId = getRepoCacheId("contributor-identities", repoRoot, getAliasFileTime());
+
+  let members: TeamMember[] = cacheMgr.get(cacheId);
+  // return from cache if we have it
+  if (members) {
+    return members;
+  }
+
+  // %aE and %aN honor the .mailmap, %ae is the email of the commit
+  const resultList = await getCommandResult(["log", "--format=%aE,%ae,%aN"], repoRoot);
+  if (!resultList) {
+    // something went wrong, but don't try to parse a null or undefined str
+    return [];
+  }
+
+  const aliases = getContributorAliases();
+  const memberMap = {};
+  // every name each member committed with, by their lowercased email
+  const memberNames = {};
+  // unique, the most recent commits are first
+  Array.from(new Set(resultList)).forEach((line: string) => {
+    const parts = line.split(",");
+    if (parts.length < 3) {
+      return;
+    }
+    const mappedEmail = parts[0].trim();
+    const commitEmail = parts[1].trim();
+    // the name may have commas
+    const name = parts.slice(2).join(",").trim();
+
+    const alias = aliases[mappedEmail.toLowerCase()] || aliases[commitEmail.toLowerCase()];
+    const email = alias ? alias.email : normalizeGithubEmail(mappedEmail, false);
+    if (!email) {
+      return;
+    }
+    let member: TeamMember = memberMap[email.toLowerCase()];
+    if (!member) {
+      member = new TeamMember();
+      member.name = alias && alias.name ? alias.name : name;
+      member.email = email;
+      memberMap[email.toLowerCase()] = member;
+      memberNames[email.toLowerCase()] = {};
+    }
+    addEmails(member, [email, mappedEmail, commitEmail]);
+    memberNames[email.toLowerCase()][name.toLowerCase()] = true;
+  });
+
+  mergeNoreplyMembers(memberMap, memberNames);
+
+  members = Object.keys(memberMap)
+    .map((key) => memberMap[key])
+    .sort((a: TeamMember, b: TeamMember) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+  cacheMgr.set(cacheId, members, cacheTimeoutSeconds);
+  return members;
+}
+
+/**
+ * Returns every email of the person that has this email, or just the
+ * email if they haven't committed to the repo
+ * @param projectDir
+ * @param email
+ */
+export async function getAuthorEmails(projectDir, email: string): Promise<string[]> {
+  if (!email) {
+    return [];
+  }
+  const members: TeamMember[] = await getContributorIdentities(projectDir);
+  const member: TeamMember = members.find((n: TeamMember) => isMemberEmail(n, email));
+  return member ? member.emails : [email];
+}
+
+/**
+ * Returns the merged email of each email in the commit history, by its
+ * lowercased email, to group the commits of a person
+ * @param projectDir
+ */
+export async function getIdentityEmailMap(projectDir) {
+  const emailMap = {};
+  const members: TeamMember[] = await getContributorIdentities(projectDir);
+  members.forEach((member: TeamMember) => {
+    member.emails.forEach((email) => {
+      emailMap[email.toLowerCase()] = member.email;
+    });
+  });
+  return emailMap;
+}
+
+/**
+ * Returns the merged email of the person that committed with the email. The
+ * email can be in angle brackets, like the author-mail of "git blame".
+ * @param emailMap the map of getIdentityEmailMap
+ * @param email
+ */
+export function getIdentityEmail(emailMap, email: string): string {
+  const address = (email || "").trim().replace(/^<(.*)>$/, "$1");
+  return address ? emailMap[address.toLowerCase()] || address : "";
+}
+
+/**
+ * Returns true if the member committed with this email
+ * @param member
+ * @param email
+ */
+export function isMemberEmail(member: TeamMember, email: string): boolean {
+  if (!member || !email) {
+    return false;
+  }
+  const lowerEmail = email.toLowerCase();
+  return !!member.emails.find((n) => n.toLowerCase() === lowerEmail);
+}
+
+/**
+ * Returns the aliases of the contributorAliases.json file by their
+ * lowercased email. The email each alias belongs to is an alias of itself.
+ */
+function getContributorAliases() {
+  const aliases = {};
+  const entries: any[] = getFileDataArray(getContributorAliasFile()) || [];
+  entries.forEach((entry) => {
+    if (!entry || !entry.email) {
+      return;
+    }
+    const alias = { name: entry.name || "", email: entry.email };
+    [entry.email, ...(entry.aliases || [])].forEach((email) => {
+      if (email) {
+        aliases[email.toLowerCase()] = alias;
+      }
+    });
+  });
+  return aliases;
+}
+
+/**
+ * A GitHub noreply address that shares a name with one other member is that
+ * member committing from the GitHub web editor or with their email hidden
+ */
+function mergeNoreplyMembers(memberMap, memberNames) {
+  Object.keys(memberMap).forEach((key) => {
+    if (key.indexOf("users.noreply") === -1) {
+      return;
+    }
+    const names: string[] = Object.keys(memberNames[key]);
+    const sameName: string[] = Object.keys(memberMap).filter(
+      (otherKey) =>
+        otherKey.indexOf("users.noreply") === -1 && !!names.find((name) => memberNames[otherKey][name])
+    );
+    if (sameName.length === 1) {
+      addEmails(memberMap[sameName[0]], memberMap[key].emails);
+      delete memberMap[key];
+    }
+  });
+}
+
+function addEmails(member: TeamMember, emails: string[]) {
+  emails.forEach((email) => {
+    if (email && !isMemberEmail(member, email)) {
+      member.emails.push(email);
+    }
+  });
+}
+
+function getAliasFileTime(): number {
+  try {
+    return fs.statSync(getContributorAliasFile()).mtimeMs;
+  } catch (e) {
+    // there isn't an alias file
+    return 0;
+  }
+}
@@ -0,0 +1,329 @@
+import { getGitRootForFile } from "../Util";
+import { getCommandResult, getRepoCacheId, parseBlameAuthorMail } from "./GitUtil";
+import { getIdentityEmail, getIdentityEmailMap } from "./GitIdentity";
+import { CacheManager } from "../cache/CacheManager";
+import Ownership, { Owner } from "../model/Ownership";
+import OwnershipSummary from "../model/OwnershipSummary";
+
+const path = require("path");
+
+const cacheMgr: CacheManager = CacheManager.getInstance();
+const cacheTimeoutSeconds = 60 * 30;
+
+// each file is a git blame, the files with the most history are blamed first
+const MAX_BLAMED_FILES = 150;
+// the lines added in the most recent commits decide who owns the files that aren't blamed
+const MAX_HISTORY_COMMITS = 2000;
+// the files with one person in the recent commits are checked against their full history
+const MAX_SINGLE_OWNER_CHECKS = 500;
+// the number of files checked by each git log
+const SINGLE_OWNER_BATCH_SIZE = 100;
+
+/**
+ * Returns the owners of the repo's files and directories. The blamed lines
+ * at HEAD decide who owns a file, the lines of the files that weren't
+ * blamed are split by the lines each person added to them in the most
+ * recent commits. The bus factor of a
+ * directory is the fewest people that own more than half of its lines.
+ * @param projectDir
+ */
+export async function getOwnershipSummary(projectDir: string): Promise<OwnershipSummary> {
+  const repoRoot = getGitRootForFile(projectDir);
+  if (!repoRoot) {
+    return null;
+  }
+
+  const cacheId = getRepoCacheId("ownership", repoRoot);
+
+  let summary: OwnershipSummary = cacheMgr.get(cacheId);
+  // return from cache if we have it
+  if (summary) {
+    return summary;
+  }
+
+  const trackedFiles = await getCommandResult(["ls-files"], repoRoot);
+  const historyList = await getCommandResult(
+    [
+      "log",
+      "--no-merges",
+      "--no-renames",
+      "--numstat",
+      "--format=COMMIT:%aE",
+      `--max-count=${MAX_HISTORY_COMMITS}`,
+    ],
+    repoRoot
+  );
+  if (!trackedFiles || !historyList) {
+    return null;
+  }
+
+  // %aE and the blamed author-mail honor the .mailmap, the emails are merged per person
+  const emailMap = await getIdentityEmailMap(repoRoot);
+  const lineCounts = await getLineCounts(repoRoot);
+
+  // the lines each person added to the files that still exist
+  const history = {};
+  trackedFiles.filter((n) => n.trim()).forEach((file) => {
+    history[file.trim()] = {};
+  });
+  let email = "";
+  historyList.forEach((line: string) => {
+    if (line.indexOf("COMMIT:") === 0) {
+      email = getOwnerEmail(emailMap, line.substring("COMMIT:".length));
+      return;
+    }
+    // binary files have a "-" instead of the number of lines
+    const match = line.match(/^(\d+|-)\t(\d+|-)\t(.+)$/);
+    if (match && history[match[3].trim()]) {
+      const authors = history[match[3].trim()];
+      authors[email] = (authors[email] || 0) + (parseInt(match[1], 10) || 0);
+    }
+  });
+
+  summary = new OwnershipSummary();
+  summary.project_directory = repoRoot;
+
+  const files: string[] = Object.keys(history).sort(
+    (a, b) => sumValues(history[b]) - sumValues(history[a])
+  );
+  summary.partial = files.length > MAX_BLAMED_FILES;
+
+  const dirLines = {};
+  const singleOwnerCandidates: string[] = [];
+  for (let i = 0; i < files.length; i++) {
+    const file = files[i];
+    const contributors: string[] = Object.keys(history[file]);
+    const blamedLines = i < MAX_BLAMED_FILES ? await getBlameLines(repoRoot, file, emailMap) : null;
+    // the directories add up the lines at HEAD, whether the file was blamed or not
+    const lines = blamedLines || weightLines(history[file], lineCounts[file] || 0);
+    const ownership: Ownership = buildOwnership(path.join(repoRoot, file), false, lines);
+    ownership.contributors = contributors.length;
+    summary.files.push(ownership);
+    if (contributors.length === 1) {
+      singleOwnerCandidates.push(file);
+    }
+
+    // add the lines to every directory the file is in
+    let dir = path.dirname(file);
+    while (dir && dir !== ".") {
+      addLines(dirLines, dir, lines, contributors);
+      dir = path.dirname(dir);
+    }
+    if (file.indexOf("/") === -1) {
+      // the files in the repo root are their own folder
+      addLines(dirLines, ".", lines, contributors);
+    }
+  }
+
+  Object.keys(dirLines).forEach((dir) => {
+    const ownership: Ownership = buildOwnership(
+      dir === "." ? repoRoot : path.join(repoRoot, dir),
+      true,
+      dirLines[dir].lines
+    );
+    ownership.contributors = Object.keys(dirLines[dir].contributors).length;
+    if (dir === "." || dir.indexOf("/") === -1) {
+      summary.folders.push(ownership);
+    }
+    if (dir !== ".") {
+      summary.directories.push(ownership);
+    }
+  });
+  const singleOwnerFiles: string[] = await getSingleOwnerFiles(
+    repoRoot,
+    singleOwnerCandidates.slice(0, MAX_SINGLE_OWNER_CHECKS),
+    emailMap
+  );
+  summary.single_owner_files = (singleOwnerFiles || []).map((file) => path.join(repoRoot, file));
+  if (!singleOwnerFiles || singleOwnerCandidates.length > MAX_SINGLE_OWNER_CHECKS) {
+    summary.partial = true;
+  }
+
+  summary.folders.sort((a: Ownership, b: Ownership) => b.lines - a.lines);
+  summary.files.sort((a: Ownership, b: Ownership) => b.lines - a.lines);
+
+  cacheMgr.set(cacheId, summary, cacheTimeoutSeconds);
+  return summary;
+}
+
+/**
+ * Returns the ownership summary of the repo if it's cached, or null if it
+ * has to be computed
+ * @param projectDir
+ */
+export function getCachedOwnershipSummary(projectDir: string): OwnershipSummary {
+  const repoRoot = getGitRootForFile(projectDir);
+  if (!repoRoot) {
+    return null;
+  }
+  return cacheMgr.get(getRepoCacheId("ownership", repoRoot)) || null;
+}
+
+/**
+ * Returns the files and subdirectories directly within the directory, most lines first
+ * @param summary
+ * @param directory
+ */
+export function getOwnershipChildren(summary: OwnershipSummary, directory: string): Ownership[] {
+  if (!summary) {
+    return [];
+  }
+  const children: Ownership[] = [];
+  [...summary.directories, ...summary.files].forEach((n: Ownership) => {
+    if (path.dirname(n.name) === directory && n.name !== directory) {
+      children.push(n);
+    }
+  });
+  return children.sort((a: Ownership, b: Ownership) => b.lines - a.lines);
+}
+
+/**
+ * Returns the number of lines of each author email at HEAD. "git blame
+ * --incremental" only lists the author of a commit the first time it's
+ * used, followed by the line groups of that commit.
+ */
+async function getBlameLines(repoRoot: string, file: string, emailMap) {
+  const resultList = await getCommandResult(["blame", "--incremental", "HEAD", "--", file], repoRoot);
+  if (!resultList) {
+    return null;
+  }
+  const commitEmails = {};
+  const commitLines = {};
+  let commitId = "";
+  resultList.forEach((line: string) => {
+    const groupMatch = line.match(/^([0-9a-f]{40}) \d+ \d+ (\d+)$/);
+    if (groupMatch) {
+      commitId = groupMatch[1];
+      commitLines[commitId] = (commitLines[commitId] || 0) + parseInt(groupMatch[2], 10);
+    } else if (line.indexOf("author-mail ") === 0) {
+      commitEmails[commitId] = getOwnerEmail(emailMap, parseBlameAuthorMail(line));
+    }
+  });
+
+  const lines = {};
+  Object.keys(commitLines).forEach((id) => {
+    const email = commitEmails[id] || "";
+    lines[email] = (lines[email] || 0) + commitLines[id];
+  });
+  return lines;
+}
+
+/**
+ * Returns the files only one person has ever committed to, of the
+ * candidate files, or null if git failed
+ * @param repoRoot
+ * @param candidates the paths relative to the repo root
+ * @param emailMap
+ */
+async function getSingleOwnerFiles(repoRoot: string, candidates: string[], emailMap): Promise<string[]> {
+  const fileEmails = {};
+  for (let i = 0; i < candidates.length; i += SINGLE_OWNER_BATCH_SIZE) {
+    const resultList = await getCommandResult(
+      [
+        "log",
+        "--no-renames",
+        "--name-only",
+        "--format=COMMIT:%aE",
+        "--",
+        ...candidates.slice(i, i + SINGLE_OWNER_BATCH_SIZE),
+      ],
+      repoRoot
+    );
+    if (!resultList) {
+      return null;
+    }
+    // the names of the candidate files each commit changed follow it
+    let email = "";
+    resultList.forEach((line: string) => {
+      if (line.indexOf("COMMIT:") === 0) {
+        email = getOwnerEmail(emailMap, line.substring("COMMIT:".length));
+      } else if (line.trim()) {
+        const file = line.trim();
+        fileEmails[file] = fileEmails[file] || {};
+        fileEmails[file][email] = true;
+      }
+    });
+  }
+  return candidates.filter((file) => fileEmails[file] && Object.keys(fileEmails[file]).length === 1);
+}
+
+/**
+ * Returns the number of lines of each text file at HEAD, by its path
+ */
+async function getLineCounts(repoRoot: string) {
+  const lineCounts = {};
+  // the empty pattern matches every line, the binary files are skipped
+  const resultList = await getCommandResult(["grep", "-I", "-c", "-e", "", "HEAD", "--"], repoRoot);
+  (resultList || []).forEach((line: string) => {
+    const match = line.match(/^HEAD:(.+):(\d+)$/);
+    if (match) {
+      lineCounts[match[1]] = parseInt(match[2], 10);
+    }
+  });
+  return lineCounts;
+}
+
+// splits the file's lines by the lines each person added to it
+function weightLines(addedLines, lineCount: number) {
+  const totalAdded = sumValues(addedLines);
+  const lines = {};
+  Object.keys(addedLines).forEach((email) => {
+    lines[email] = totalAdded ? Math.round((addedLines[email] / totalAdded) * lineCount) : 0;
+  });
+  return lines;
+}
+
+/**
+ * Returns the owners of the file or directory, most lines first, and its bus factor
+ * @param name the full path
+ * @param isDirectory
+ * @param lines the number of lines of each owner email
+ */
+export function buildOwnership(name: string, isDirectory: boolean, lines): Ownership {
+  const ownership: Ownership = new Ownership();
+  ownership.name = name;
+  ownership.is_directory = isDirectory;
+  ownership.lines = sumValues(lines);
+  ownership.owners = Object.keys(lines)
+    .filter((email) => lines[email] > 0)
+    .map((email) => {
+      const owner: Owner = new Owner();
+      owner.email = email;
+      owner.lines = lines[email];
+      owner.percent = ownership.lines ? Math.round((lines[email] / ownership.lines) * 100) : 0;
+      return owner;
+    })
+    .sort((a: Owner, b: Owner) => b.lines - a.lines);
+
+  // the fewest owners that have more than half of the lines
+  let ownedLines = 0;
+  for (let i = 0; i < ownership.owners.length; i++) {
+    ownedLines += ownership.owners[i].lines;
+    ownership.bus_factor = i + 1;
+    if (ownedLines * 2 > ownership.lines) {
+      break;
+    }
+  }
+  return ownership;
+}
+
+function addLines(dirLines, dir: string, lines, contributors: string[]) {
+  if (!dirLines[dir]) {
+    dirLines[dir] = { lines: {}, contributors: {} };
+  }
+  Object.keys(lines).forEach((email) => {
+    dirLines[dir].lines[email] = (dirLines[dir].lines[email] || 0) + lines[email];
+  });
+  contributors.forEach((email) => {
+    dirLines[dir].contributors[email] = true;
+  });
+}
+
+// the lowercased merged email of the person that committed with the email
+function getOwnerEmail(emailMap, email: string): string {
+  return getIdentityEmail(emailMap, email).toLowerCase();
+}
+
+function sumValues(map): number {
+  return Object.keys(map).reduce((sum, key) => sum + map[key], 0);
+}
@@ -0,0 +1,159 @@
+import { workspace } from "vscode";
+import RemoteInfo from "../model/RemoteInfo";
+
+export const GITHUB = "github";
+export const GITLAB = "gitlab";
+export const BITBUCKET = "bitbucket";
+export const AZURE = "azure";
+export const UNKNOWN = "unknown";
+
+const PROVIDERS = [GITHUB, GITLAB, BITBUCKET, AZURE];
+
+const KNOWN_HOSTS = {
+  "github.com": GITHUB,
+  "gitlab.com": GITLAB,
+  "bitbucket.org": BITBUCKET,
+  "dev.azure.com": AZURE,
+  "ssh.dev.azure.com": AZURE,
+  "vs-ssh.visualstudio.com": AZURE,
+};
+
+/**
+ * Parses a git remote url into its host, owner and repo name. Handles
+ * https (https://github.com/org/repo.git), ssh (ssh://git@host:2222/org/repo.git)
+ * and scp-style (git@github.com:org/repo.git) urls. Self-hosted domains
+ * are mapped to a provider with the codetime.gitHosts setting.
+ * @param remoteUrl i.e. the output of "git config --get remote.origin.url"
+ */
+export function parseRemoteUrl(remoteUrl: string): RemoteInfo {
+  const info: RemoteInfo = new RemoteInfo();
+  if (!remoteUrl) {
+    return info;
+  }
+
+  const url = remoteUrl.trim();
+  if (/^file:/i.test(url) || /^(\/|\.{1,2}[\\/]|~|[a-z]:[\\/]|\\\\)/i.test(url)) {
+    // a file:// url or a local path, there's no host to link to
+    return info;
+  }
+
+  let scheme = "";
+  let host = "";
+  let port = "";
+  let repoPath = "";
+
+  const urlMatch = url.match(/^([a-z][a-z0-9+.-]*):\/\/(?:[^@/]*@)?([^/:]+)(?::(\d*))?\/(.*)$/i);
+  const scpMatch = url.match(/^(?:[^@/]+@)?([^/:]+):(.+)$/);
+  if (urlMatch) {
+    scheme = urlMatch[1].toLowerCase();
+    host = urlMatch[2];
+    port = urlMatch[3] || "";
+    repoPath = urlMatch[4];
+  } else if (scpMatch && scpMatch[1].length > 1) {
+    // a single letter is a windows drive, not a host
+    scheme = "ssh";
+    host = scpMatch[1];
+    repoPath = scpMatch[2];
+  } else {
+    // a local path
+    return info;
+  }
+
+  const segments: string[] = repoPath
+    .replace(/\/+$/, "")
+    .replace(/\.git$/i, "")
+    .split("/")
+    .filter((n) => n);
+  if (!segments.length) {
+    return info;
+  }
+
+  info.host = host.toLowerCase();
+  info.provider = getProvider(info.host);
+
+  // the ssh port isn't used by the web server
+  const isWebScheme = scheme === "http" || scheme === "https";
+  const webBase = `${scheme === "http" ? "http" : "https"}://${info.host}${
+    isWebScheme && port ? `:${port}` : ""
+  }`;
+
+  if (info.provider === AZURE) {
+    parseAzurePath(info, segments);
+  } else if (info.provider === BITBUCKET && info.host !== "bitbucket.org") {
+    // bitbucket server, the https clone urls start with /scm
+    const parts = segments[0].toLowerCase() === "scm" ? segments.slice(1) : segments;
+    info.owner = parts.slice(0, -1).join("/");
+    info.repo_name = parts[parts.length - 1];
+    info.web_url = `${webBase}/projects/${info.owner}/repos/${info.repo_name}`;
+  } else {
+    // the owner can be a nested group path on gitlab
+    info.owner = segments.slice(0, -1).join("/");
+    info.repo_name = segments[segments.length - 1];
+    info.web_url = info.owner
+      ? `${webBase}/${info.owner}/${info.repo_name}`
+      : `${webBase}/${info.repo_name}`;
+  }
+  return info;
+}
+
+/**
+ * Returns the browser url of the commit, or an empty string if the remote is unknown
+ * @param info
+ * @param commitId
+ */
+export function getCommitUrl(info: RemoteInfo, commitId: string): string {
+  if (!info || !info.web_url || !commitId) {
+    return "";
+  }
+  switch (info.provider) {
+    case GITLAB:
+      return `${info.web_url}/-/commit/${commitId}`;
+    case BITBUCKET:
+      return `${info.web_url}/commits/${commitId}`;
+    default:
+      return `${info.web_url}/commit/${commitId}`;
+  }
+}
+
+function getProvider(host: string): string {
+  const hosts = workspace.getConfiguration("codetime").get("gitHosts") || {};
+  const configured = hosts[host];
+  if (configured && PROVIDERS.indexOf(configured) !== -1) {
+    return configured;
+  }
+  if (KNOWN_HOSTS[host]) {
+    return KNOWN_HOSTS[host];
+  }
+  if (host.endsWith(".visualstudio.com")) {
+    return AZURE;
+  }
+  return UNKNOWN;
+}
+
+/**
+ * Azure DevOps urls look like
+ * https://dev.azure.com/{org}/{project}/_git/{repo}
+ * https://{org}.visualstudio.com/{project}/_git/{repo}
+ * git@ssh.dev.azure.com:v3/{org}/{project}/{repo}
+ */
+function parseAzurePath(info: RemoteInfo, segments: string[]) {
+  const parts = segments[0].toLowerCase() === "v3" ? segments.slice(1) : segments;
+  const gitIdx = parts.indexOf("_git");
+  const repoName = gitIdx !== -1 ? parts[gitIdx + 1] : parts[parts.length - 1];
+  let before = gitIdx !== -1 ? parts.slice(0, gitIdx) : parts.slice(0, -1);
+
+  let org = "";
+  if (info.host.endsWith(".visualstudio.com") && info.host !== "vs-ssh.visualstudio.com") {
+    // the org is the subdomain
+    org = info.host.split(".")[0];
+    before = before.filter((n) => n.toLowerCase() !== "defaultcollection");
+  } else {
+    org = before[0] || "";
+    before = before.slice(1);
+  }
+  const project = before.length ? before[before.length - 1] : repoName;
+
+  info.owner = org ? `${org}/${project}` : project;
+  info.repo_name = repoName || "";
+  info.web_url = org ? `https://dev.azure.com/${org}/${project}/_git/${info.repo_name}` : "";
+}
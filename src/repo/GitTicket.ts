@@ -0,0 +1,54 @@
+import { workspace } from "vscode";
+import { logIt } from "../Util";
+
+// Jira and Linear keys (PROJ-1234) and GitHub issue numbers (#123)
+const DEFAULT_TICKET_PATTERNS = ["[A-Z][A-Z0-9]+-\\d+", "#\\d+"];
+
+/**
+ * Returns the ticket regexes of the codetime.ticketPatterns setting.
+ * The invalid patterns are logged and skipped.
+ */
+export function getTicketPatterns(): RegExp[] {
+  const configured: string[] = workspace.getConfiguration("codetime").get("ticketPatterns");
+  const patterns: string[] = configured && configured.length ? configured : DEFAULT_TICKET_PATTERNS;
+
+  const regexes: RegExp[] = [];
+  patterns.forEach((pattern: string) => {
+    try {
+      regexes.push(new RegExp(pattern, "g"));
+    } catch (e) {
+      logIt(`Invalid ticket pattern ${pattern}: ${e.message}`);
+    }
+  });
+  return regexes;
+}
+
+/**
+ * Returns the unique ticket ids found in a branch name or commit message,
+ * in the order they're found. A pattern with a capture group uses the
+ * first group as the id, otherwise the whole match is the id.
+ * @param text i.e. "feature/PROJ-1234-short-desc"
+ * @param patterns the regexes of getTicketPatterns
+ */
+export function extractTicketIds(text: string, patterns: RegExp[] = getTicketPatterns()): string[] {
+  const ids: string[] = [];
+  if (!text) {
+    return ids;
+  }
+  patterns.forEach((regex: RegExp) => {
+    regex.lastIndex = 0;
+    let match = regex.exec(text);
+    while (match) {
+      const id = match.length > 1 && match[1] ? match[1] : match[0];
+      if (id && ids.indexOf(id) === -1) {
+        ids.push(id);
+      }
+      if (!match[0]) {
+        // an empty match would never advance
+        regex.lastIndex += 1;
+      }
+      match = regex.exec(text);
+    }
+  });
+  return ids;
+}
@@ -1,8 +1,21 @@
-import { CommitChangeStats } from "../model/models";
-import { wrapExecPromise, isGitProject } from "../Util";
+import { CommitChangeStats, CommitInfo } from "../model/models";
+import {
+  isGitProject,
+  logIt,
+  getWorkspaceFolders,
+  getGitDir,
+  getGitRootForFile,
+  getGitRepoType,
+} from "../Util";
 import { getResourceInfo } from "./KpmRepoManager";
+import { getAuthorEmails } from "./GitIdentity";
 import { CacheManager } from "../cache/CacheManager";
+import { runGitCommand } from "./GitCommand";
+import { parseRemoteUrl } from "./GitRemote";
+import RemoteInfo from "../model/RemoteInfo";
+import GitRepo from "../model/GitRepo";
 
+const fs = require("fs");
 const path = require("path");
 const moment = require("moment-timezone");
 
@@ -13,8 +26,55 @@ const ONE_WEEK_SEC = ONE_DAY_SEC * 7;
 const cacheMgr: CacheManager = CacheManager.getInstance();
 const cacheTimeoutSeconds = 60 * 10;
 
-export async function getCommandResult(cmd, projectDir) {
-  let result = await wrapExecPromise(cmd, projectDir);
+/**
+ * Cache ids start with the name and the directory so the entries of a repo
+ * can be removed when it changes. The other inputs are appended.
+ * @param name
+ * @param projectDir
+ * @param inputs the rest of the inputs the cached value depends on
+ */
+export function getRepoCacheId(name: string, projectDir: string, ...inputs: any[]): string {
+  return [name, projectDir, ...inputs].join("|");
+}
+
+// the caches that only depend on the commit history, they take the longest to compute
+const HISTORY_CACHE_NAMES = ["churn", "ownership"];
+
+/**
+ * Removes the cached git data of the repo and the directories within it
+ * @param repoRoot
+ * @param historyChanged false when only the index or the remote refs changed,
+ * the caches of the commit history are kept
+ */
+export function clearRepoCache(repoRoot: string, historyChanged: boolean = true) {
+  cacheMgr.deleteMatching((key: string) => {
+    const parts = key.split("|");
+    const dir = parts[1];
+    if (!historyChanged && HISTORY_CACHE_NAMES.indexOf(parts[0]) !== -1) {
+      return false;
+    }
+    return !!dir && (dir === repoRoot || dir.startsWith(`${repoRoot}${path.sep}`));
+  });
+}
+
+/**
+ * Runs git with the arguments and returns the trimmed stdout,
+ * or null if git failed
+ * @param args
+ * @param projectDir
+ */
+async function getGitOutput(args: string[], projectDir): Promise<string> {
+  try {
+    const result = await runGitCommand(args, projectDir);
+    return result.trim();
+  } catch (e) {
+    logIt(`${e.message}${e.stderr ? `: ${e.stderr}` : ""}`);
+    return null;
+  }
+}
+
+export async function getCommandResult(args: string[], projectDir) {
+  let result = await getGitOutput(args, projectDir);
   if (!result) {
     // something went wrong, but don't try to parse a null or undefined str
     return null;
@@ -30,8 +90,8 @@ export async function getCommandResult(cmd, projectDir) {
   return resultList;
 }
 
-export async function getCommandResultString(cmd, projectDir) {
-  let result = await wrapExecPromise(cmd, projectDir);
+export async function getCommandResultString(args: string[], projectDir) {
+  let result = await getGitOutput(args, projectDir);
   if (!result) {
     // something went wrong, but don't try to parse a null or undefined str
     return null;
@@ -81,7 +141,7 @@ export function accumulateStatChanges(results): CommitChangeStats {
   return stats;
 }
 
-async function getChangeStats(projectDir: string, cmd: string): Promise<CommitChangeStats> {
+async function getChangeStats(projectDir: string, args: string[]): Promise<CommitChangeStats> {
   let changeStats: CommitChangeStats = new CommitChangeStats();
 
   if (!projectDir || !isGitProject(projectDir)) {
@@ -97,7 +157,7 @@ async function getChangeStats(projectDir: string, cmd: string): Promise<CommitCh
         for multiple files it will look like this...
         7 files changed, 137 insertions(+), 55 deletions(-)
      */
-  const resultList = await getCommandResult(cmd, projectDir);
+  const resultList = await getCommandResult(args, projectDir);
 
   if (!resultList) {
     // something went wrong, but don't try to parse a null or undefined str
@@ -112,11 +172,10 @@ async function getChangeStats(projectDir: string, cmd: string): Promise<CommitCh
 
 export async function getUncommitedChanges(projectDir): Promise<CommitChangeStats> {
   if (!projectDir || !isGitProject(projectDir)) {
-    new CommitChangeStats();
+    return new CommitChangeStats();
   }
 
-  const noSpacesProjDir = projectDir.replace(/^\s+/g, "");
-  const cacheId = `uncommitted-changes-${noSpacesProjDir}`;
+  const cacheId = getRepoCacheId("uncommitted-changes", projectDir);
 
   let commitChanges: CommitChangeStats = cacheMgr.get(cacheId);
   // return from cache if we have it
@@ -124,8 +183,7 @@ export async function getUncommitedChanges(projectDir): Promise<CommitChangeStat
     return commitChanges;
   }
 
-  const cmd = `git diff --stat`;
-  commitChanges = await getChangeStats(projectDir, cmd);
+  commitChanges = await getChangeStats(projectDir, ["diff", "--stat"]);
 
   if (commitChanges) {
     cacheMgr.set(cacheId, commitChanges, cacheTimeoutSeconds);
@@ -133,28 +191,55 @@ export async function getUncommitedChanges(projectDir): Promise<CommitChangeStat
   return commitChanges;
 }
 
-export async function getTodaysCommits(projectDir, useAuthor = true): Promise<CommitChangeStats> {
+/**
+ * Returns the full paths of the staged files. It isn't cached, the
+ * index changes with every stage and unstage.
+ * @param projectDir
+ */
+export async function getStagedFiles(projectDir): Promise<string[]> {
+  const repoRoot = getGitRootForFile(projectDir);
+  if (!repoRoot) {
+    return [];
+  }
+  const list = await getCommandResult(["diff", "--cached", "--name-only"], repoRoot);
+  if (!list) {
+    return [];
+  }
+  // the names are relative to the repo root
+  return list.filter((n) => n.trim()).map((n) => path.join(repoRoot, n.trim()));
+}
+
+/**
+ * Returns the commit time (unix seconds) of HEAD, or 0 if there aren't any commits yet
+ * @param projectDir
+ */
+export async function getHeadCommitTimestamp(projectDir): Promise<number> {
   if (!projectDir || !isGitProject(projectDir)) {
-    new CommitChangeStats();
+    return 0;
   }
+  const timestamp = await getCommandResultString(["log", "-1", "--format=%ct"], projectDir);
+  return parseInt(timestamp, 10) || 0;
+}
 
-  const noSpacesProjDir = projectDir.replace(/^\s+/g, "");
-  const cacheId = `todays-commits-${noSpacesProjDir}`;
+/**
+ * Returns the commit id of HEAD, or an empty string if there aren't any commits yet
+ * @param projectDir
+ */
+export async function getHeadCommitId(projectDir): Promise<string> {
+  if (!projectDir || !isGitProject(projectDir)) {
+    return "";
+  }
+  const commitId = await getCommandResultString(["rev-parse", "-q", "--verify", "HEAD"], projectDir);
+  return commitId ? commitId.trim() : "";
+}
 
-  let commitChanges: CommitChangeStats = cacheMgr.get(cacheId);
-  // return from cache if we have it
-  if (commitChanges) {
-    return commitChanges;
+export async function getTodaysCommits(projectDir, useAuthor = true): Promise<CommitChangeStats> {
+  if (!projectDir || !isGitProject(projectDir)) {
+    return new CommitChangeStats();
   }
 
   const { start, end } = getToday();
-
-  commitChanges = await getCommitsInUtcRange(projectDir, start, end, useAuthor);
-
-  if (commitChanges) {
-    cacheMgr.set(cacheId, commitChanges, cacheTimeoutSeconds);
-  }
-  return commitChanges;
+  return await getCommitsInUtcRange(projectDir, start, end, useAuthor);
 }
 
 export async function getYesterdaysCommits(
@@ -162,25 +247,11 @@ export async function getYesterdaysCommits(
   useAuthor = true
 ): Promise<CommitChangeStats> {
   if (!projectDir || !isGitProject(projectDir)) {
-    new CommitChangeStats();
-  }
-
-  const noSpacesProjDir = projectDir.replace(/^\s+/g, "");
-  const cacheId = `yesterdays-commits-${noSpacesProjDir}`;
-
-  let commitChanges: CommitChangeStats = cacheMgr.get(cacheId);
-  // return from cache if we have it
-  if (commitChanges) {
-    return commitChanges;
+    return new CommitChangeStats();
   }
 
   const { start, end } = getYesterday();
-  commitChanges = await getCommitsInUtcRange(projectDir, start, end, useAuthor);
-
-  if (commitChanges) {
-    cacheMgr.set(cacheId, commitChanges, cacheTimeoutSeconds);
-  }
-  return commitChanges;
+  return await getCommitsInUtcRange(projectDir, start, end, useAuthor);
 }
 
 export async function getThisWeeksCommits(
@@ -188,11 +259,21 @@ export async function getThisWeeksCommits(
   useAuthor = true
 ): Promise<CommitChangeStats> {
   if (!projectDir || !isGitProject(projectDir)) {
-    new CommitChangeStats();
+    return new CommitChangeStats();
+  }
+
+  const { start, end } = getThisWeek();
+  return await getCommitsInUtcRange(projectDir, start, end, useAuthor);
+}
+
+async function getCommitsInUtcRange(projectDir, start, end, useAuthor = true) {
+  if (!projectDir || !isGitProject(projectDir)) {
+    return new CommitChangeStats();
   }
 
-  const noSpacesProjDir = projectDir.replace(/^\s+/g, "");
-  const cacheId = `this-weeks-commits-${noSpacesProjDir}`;
+  const resourceInfo = await getResourceInfo(projectDir);
+  const author = useAuthor && resourceInfo && resourceInfo.email ? resourceInfo.email : "";
+  const cacheId = getRepoCacheId("commits-in-range", projectDir, start, end, author);
 
   let commitChanges: CommitChangeStats = cacheMgr.get(cacheId);
   // return from cache if we have it
@@ -200,38 +281,155 @@ export async function getThisWeeksCommits(
     return commitChanges;
   }
 
-  const { start, end } = getThisWeek();
-  commitChanges = await getCommitsInUtcRange(projectDir, start, end, useAuthor);
-
+  const args = ["log", "--stat", "--pretty=COMMIT:%H,%ct,%cI,%s", `--since=${start}`, `--until=${end}`];
+  // the commits with any of the author's emails
+  (await getAuthorEmails(projectDir, author)).forEach((email) => args.push(`--author=${email}`));
+  commitChanges = await getChangeStats(projectDir, args);
   if (commitChanges) {
     cacheMgr.set(cacheId, commitChanges, cacheTimeoutSeconds);
   }
   return commitChanges;
 }
 
-async function getCommitsInUtcRange(projectDir, start, end, useAuthor = true) {
+/**
+ * Returns the commits between the start and end (unix seconds) with their stats
+ * @param projectDir
+ * @param start
+ * @param end
+ * @param useAuthor only return the commits of the repo's user email
+ */
+export async function getCommits(projectDir, start, end, useAuthor = true): Promise<CommitInfo[]> {
   if (!projectDir || !isGitProject(projectDir)) {
-    new CommitChangeStats();
+    return [];
   }
 
-  const noSpacesProjDir = projectDir.replace(/^\s+/g, "");
-  const cacheId = `commits-in-range-${noSpacesProjDir}`;
+  const resourceInfo = await getResourceInfo(projectDir);
+  const author = useAuthor && resourceInfo && resourceInfo.email ? resourceInfo.email : "";
+  const cacheId = getRepoCacheId("commits", projectDir, start, end, author);
 
-  let commitChanges: CommitChangeStats = cacheMgr.get(cacheId);
+  let commits: CommitInfo[] = cacheMgr.get(cacheId);
   // return from cache if we have it
-  if (commitChanges) {
-    return commitChanges;
+  if (commits) {
+    return commits;
   }
 
-  const resourceInfo = await getResourceInfo(projectDir);
-  const authorOption =
-    useAuthor && resourceInfo && resourceInfo.email ? ` --author=${resourceInfo.email}` : ``;
-  const cmd = `git log --stat --pretty="COMMIT:%H,%ct,%cI,%s" --since=${start} --until=${end}${authorOption}`;
-  commitChanges = await getChangeStats(projectDir, cmd);
-  if (commitChanges) {
-    cacheMgr.set(cacheId, commitChanges, cacheTimeoutSeconds);
+  const args = ["log", "--stat", "--pretty=COMMIT:%H,%ct,%ae,%s", `--since=${start}`, `--until=${end}`];
+  // the commits with any of the author's emails
+  (await getAuthorEmails(projectDir, author)).forEach((email) => args.push(`--author=${email}`));
+  const resultList = await getCommandResult(args, projectDir);
+  if (!resultList) {
+    // something went wrong, but don't try to parse a null or undefined str
+    return [];
   }
-  return commitChanges;
+
+  commits = parseCommitLog(resultList);
+  cacheMgr.set(cacheId, commits, cacheTimeoutSeconds);
+  return commits;
+}
+
+/**
+ * Returns the commits on the current branch, following the first parent only,
+ * between the start and end (unix seconds) with the full paths of their files.
+ * The commits are sorted by their timestamp, oldest first.
+ * @param projectDir
+ * @param start
+ * @param end
+ */
+export async function getBranchCommitFiles(projectDir, start, end): Promise<CommitInfo[]> {
+  const repoRoot = getGitRootForFile(projectDir);
+  if (!repoRoot) {
+    return [];
+  }
+
+  const cacheId = getRepoCacheId("branch-commit-files", repoRoot, start, end);
+
+  let commits: CommitInfo[] = cacheMgr.get(cacheId);
+  // return from cache if we have it
+  if (commits) {
+    return commits;
+  }
+
+  const args = [
+    "log",
+    "--first-parent",
+    "--name-only",
+    "--pretty=COMMIT:%H,%ct,%ae,%s",
+    `--since=${start}`,
+    `--until=${end}`,
+  ];
+  const resultList = await getCommandResult(args, repoRoot);
+  if (!resultList) {
+    // something went wrong, but don't try to parse a null or undefined str
+    return [];
+  }
+
+  commits = [];
+  let commit: CommitInfo = null;
+  resultList.forEach((line) => {
+    line = line.trim();
+    if (line.indexOf("COMMIT:") === 0) {
+      commit = parseCommitLine(line);
+      commits.push(commit);
+    } else if (commit && line) {
+      // the names are relative to the repo root
+      commit.files.push(path.join(repoRoot, line));
+      commit.fileCount += 1;
+    }
+  });
+  commits.sort((a: CommitInfo, b: CommitInfo) => a.timestamp - b.timestamp);
+
+  cacheMgr.set(cacheId, commits, cacheTimeoutSeconds);
+  return commits;
+}
+
+/**
+ * Parses the "COMMIT:%H,%ct,%ae,%s" pretty format line
+ * @param line
+ */
+function parseCommitLine(line: string): CommitInfo {
+  // the subject may have commas, it's everything after the 3rd one
+  const parts = line.substring("COMMIT:".length).split(",");
+  const commit: CommitInfo = new CommitInfo();
+  commit.commitId = parts[0];
+  commit.timestamp = parseInt(parts[1], 10) || 0;
+  commit.email = parts[2] || "";
+  commit.message = parts.slice(3).join(",");
+  return commit;
+}
+
+/**
+ * Returns the email of a "git blame" author-mail line,
+ * i.e. "author-mail <jane@x.com>" returns "jane@x.com"
+ * @param line
+ */
+export function parseBlameAuthorMail(line: string): string {
+  return line
+    .substring("author-mail ".length)
+    .trim()
+    .replace(/^<(.*)>$/, "$1");
+}
+
+/**
+ * Parses the "git log --stat" lines that use the
+ * "COMMIT:%H,%ct,%ae,%s" pretty format
+ * @param resultList
+ */
+function parseCommitLog(resultList: string[]): CommitInfo[] {
+  const commits: CommitInfo[] = [];
+  let commit: CommitInfo = null;
+  resultList.forEach((line) => {
+    line = line.trim();
+    if (line.indexOf("COMMIT:") === 0) {
+      commit = parseCommitLine(line);
+      commits.push(commit);
+    } else if (commit) {
+      const stats: CommitChangeStats = accumulateStatChanges([line]);
+      commit.fileCount += stats.fileCount;
+      commit.insertions += stats.insertions;
+      commit.deletions += stats.deletions;
+    }
+  });
+  return commits;
 }
 
 export async function getLastCommitId(projectDir, email) {
@@ -239,9 +437,7 @@ export async function getLastCommitId(projectDir, email) {
     return {};
   }
 
-  const fileName = path.basename(projectDir);
-  const noSpacesProjDir = fileName.replace(/^\s+/g, "");
-  const cacheId = `last-commit-id_${email}_${noSpacesProjDir}`;
+  const cacheId = getRepoCacheId("last-commit-id", projectDir, email);
 
   let lastCommitIdInfo = cacheMgr.get(cacheId);
   // return from cache if we have it
@@ -251,9 +447,10 @@ export async function getLastCommitId(projectDir, email) {
 
   lastCommitIdInfo = {};
 
-  const authorOption = email ? ` --author=${email}` : "";
-  const cmd = `git log --pretty="%H,%s"${authorOption} --max-count=1`;
-  const list = await getCommandResult(cmd, projectDir);
+  const args = ["log", "--pretty=%H,%s", "--max-count=1"];
+  // the last commit with any of the person's emails
+  (await getAuthorEmails(projectDir, email)).forEach((authorEmail) => args.push(`--author=${authorEmail}`));
+  const list = await getCommandResult(args, projectDir);
   if (list && list.length) {
     const parts = list[0].split(",");
     if (parts && parts.length === 2) {
@@ -273,35 +470,95 @@ export async function getRepoConfigUserEmail(projectDir) {
   if (!projectDir || !isGitProject(projectDir)) {
     return "";
   }
-  const cmd = `git config user.email`;
-  return await getCommandResultString(cmd, projectDir);
+  return await getCommandResultString(["config", "user.email"], projectDir);
 }
 
 export async function getRepoUrlLink(projectDir) {
+  const remoteInfo: RemoteInfo = await getRepoRemoteInfo(projectDir);
+  return remoteInfo.web_url;
+}
+
+/**
+ * Returns the host, owner, repo name and browser url of the origin remote
+ * @param projectDir
+ */
+export async function getRepoRemoteInfo(projectDir): Promise<RemoteInfo> {
   if (!projectDir || !isGitProject(projectDir)) {
-    return "";
+    return new RemoteInfo();
   }
 
-  const noSpacesProjDir = projectDir.replace(/^\s+/g, "");
-  const cacheId = `repo-link-url-${noSpacesProjDir}`;
+  const cacheId = getRepoCacheId("repo-remote-info", projectDir);
 
-  let repoUrlLink = cacheMgr.get(cacheId);
+  let remoteInfo: RemoteInfo = cacheMgr.get(cacheId);
   // return from cache if we have it
-  if (repoUrlLink) {
-    return repoUrlLink;
+  if (remoteInfo) {
+    return remoteInfo;
   }
 
-  const cmd = `git config --get remote.origin.url`;
-  repoUrlLink = await getCommandResultString(cmd, projectDir);
+  const remoteUrl = await getCommandResultString(["config", "--get", "remote.origin.url"], projectDir);
+  remoteInfo = parseRemoteUrl(remoteUrl);
+  if (remoteInfo.web_url) {
+    // cache it
+    cacheMgr.set(cacheId, remoteInfo, cacheTimeoutSeconds);
+  }
+  return remoteInfo;
+}
 
-  if (repoUrlLink && repoUrlLink.endsWith(".git")) {
-    repoUrlLink = repoUrlLink.substring(0, repoUrlLink.lastIndexOf(".git"));
+/**
+ * Returns the repos of the workspace folders, including the submodules
+ * within them. A workspace folder inside a repo resolves to that repo.
+ */
+export function getWorkspaceRepos(): GitRepo[] {
+  const repos: GitRepo[] = [];
+  getWorkspaceFolders().forEach((folder) => {
+    const repoRoot = getGitRootForFile(folder.uri.fsPath);
+    if (repoRoot) {
+      addRepo(repos, repoRoot, repoRoot === folder.uri.fsPath ? folder.name : path.basename(repoRoot));
+    }
+  });
+  return repos;
+}
+
+function addRepo(repos: GitRepo[], repoRoot: string, name: string) {
+  if (repos.find((n: GitRepo) => n.directory === repoRoot)) {
+    return;
   }
-  if (repoUrlLink) {
-    // cache it
-    cacheMgr.set(cacheId, repoUrlLink, cacheTimeoutSeconds);
+  const repo: GitRepo = new GitRepo();
+  repo.directory = repoRoot;
+  repo.name = name;
+  repo.type = getGitRepoType(repoRoot);
+  repos.push(repo);
+
+  // the submodules that have been checked out
+  getSubmoduleDirectories(repoRoot).forEach((dir) => {
+    if (getGitDir(dir)) {
+      addRepo(repos, dir, `${name}/${path.relative(repoRoot, dir).replace(/\\/g, "/")}`);
+    }
+  });
+}
+
+/**
+ * Reads the submodule paths from the .gitmodules file
+ * @param repoRoot
+ */
+function getSubmoduleDirectories(repoRoot: string): string[] {
+  const dirs: string[] = [];
+  const gitModulesFile = path.join(repoRoot, ".gitmodules");
+  try {
+    if (fs.existsSync(gitModulesFile)) {
+      fs.readFileSync(gitModulesFile, "utf8")
+        .split(/\r?\n/)
+        .forEach((line: string) => {
+          const match = line.match(/^\s*path\s*=\s*(.+?)\s*$/);
+          if (match) {
+            dirs.push(path.join(repoRoot, match[1]));
+          }
+        });
+    }
+  } catch (e) {
+    logIt(`Unable to read ${gitModulesFile}: ${e.message}`);
   }
-  return repoUrlLink;
+  return dirs;
 }
 
 /**
@@ -361,37 +618,19 @@ function normalizeRepoIdentifier(identifier) {
 }
 
 /**
- * Retrieve the github org name and repo name from the identifier
- * i.e. https://github.com\\swdotcom\\swdc-codemetrics-service.git
- * would return "swdotcom"
- * Returns: {identifier, org_name, repo_name}
+ * Retrieve the org name (or group path) and repo name from the identifier
+ * i.e. git@gitlab.com:swdotcom/tools/swdc-vscode.git
+ * would return "swdotcom/tools" and "swdc-vscode"
+ * Returns: {identifier, owner_id, repo_name}
  */
 export function getRepoIdentifierInfo(identifier) {
+  const remoteInfo: RemoteInfo = parseRemoteUrl(identifier);
   identifier = normalizeRepoIdentifier(identifier);
 
   if (!identifier) {
     // no identifier to pull out info
-    return { identifier: "", org_name: "", repo_name: "" };
-  }
-
-  // split the identifier into parts
-  const parts = identifier.split(/[\\/]/);
-
-  // it needs to have at least 3 parts
-  // for example, this shouldn't return an org "github.com//string.git"
-  let owner_id = "";
-  const gitMatch = parts[0].match(/.*github.com/i);
-  if (parts && parts.length > 2 && gitMatch) {
-    // return the 2nd part
-    owner_id = parts[1];
-  }
-
-  let repo_name = "";
-  if (parts && parts.length > 2 && identifier.indexOf(".git") !== -1) {
-    // https://github.com/swdotcom/swdc-atom.git
-    // this will return "swdc-atom"
-    repo_name = identifier.split("/").slice(-1)[0].split(".git")[0];
+    return { identifier: "", owner_id: "", repo_name: "" };
   }
 
-  return { identifier, owner_id, repo_name };
+  return { identifier, owner_id: remoteInfo.owner, repo_name: remoteInfo.repo_name };
 }
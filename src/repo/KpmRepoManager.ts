@@ -1,12 +1,12 @@
 import {
-    wrapExecPromise,
-    getWorkspaceFolders,
     normalizeGithubEmail,
     getFileType,
     findFirstActiveDirectoryOrWorkspaceDirectory,
-    isGitProject
+    isGitProject,
+    getGitRootForFile
 } from "../Util";
-import { getCommandResult } from "./GitUtil";
+import { getCommandResult, getCommandResultString, getRepoCacheId } from "./GitUtil";
+import { getContributorIdentities, getIdentityEmailMap } from "./GitIdentity";
 import RepoContributorInfo from "../model/RepoContributorInfo";
 import TeamMember from "../model/TeamMember";
 import { CacheManager } from "../cache/CacheManager";
@@ -14,31 +14,6 @@ import { CacheManager } from "../cache/CacheManager";
 const cacheMgr: CacheManager = CacheManager.getInstance();
 const cacheTimeoutSeconds = 60 * 10;
 
-function getProjectDir(fileName = null) {
-    let workspaceFolders = getWorkspaceFolders();
-
-    if (!workspaceFolders || workspaceFolders.length === 0) {
-        return null;
-    }
-
-    // VSCode allows having multiple workspaces.
-    // for now we only support using the 1st project directory
-    // in a given set of workspaces if the provided fileName is null.
-    if (workspaceFolders && workspaceFolders.length > 0) {
-        if (!fileName) {
-            return workspaceFolders[0].uri.fsPath;
-        }
-
-        for (let i = 0; i < workspaceFolders.length; i++) {
-            const dir = workspaceFolders[i].uri.fsPath;
-            if (fileName.includes(dir)) {
-                return dir;
-            }
-        }
-    }
-    return null;
-}
-
 export async function getFileContributorCount(fileName) {
     let fileType = getFileType(fileName);
 
@@ -46,24 +21,29 @@ export async function getFileContributorCount(fileName) {
         return 0;
     }
 
-    const directory = getProjectDir(fileName);
+    // the file belongs to the nearest repo, it can be a submodule
+    const directory = getGitRootForFile(fileName);
     if (!directory || !isGitProject(directory)) {
         return 0;
     }
 
-    const cmd = `git log --pretty="%an" ${fileName}`;
-
-    // get the list of users that modified this file
-    let resultList = await getCommandResult(cmd, directory);
+    // get the list of users that modified this file, %aE honors the .mailmap
+    let resultList = await getCommandResult(
+        ["log", "--pretty=%aE", "--", fileName],
+        directory
+    );
     if (!resultList) {
         // something went wrong, but don't try to parse a null or undefined str
         return 0;
     }
 
     if (resultList.length > 0) {
+        // count each person once, whichever of their emails they used
+        const emailMap = await getIdentityEmailMap(directory);
         let map = {};
         for (let i = 0; i < resultList.length; i++) {
-            const name = resultList[i];
+            const email = resultList[i].trim().toLowerCase();
+            const name = emailMap[email] || email;
             if (!map[name]) {
                 map[name] = name;
             }
@@ -82,10 +62,8 @@ export async function getRepoFileCount(directory) {
         return 0;
     }
 
-    // windows doesn't support the wc -l so we'll just count the list
-    let cmd = `git ls-files`;
-    // get the author name and email
-    let resultList = await getCommandResult(cmd, directory);
+    // count the list instead of piping it to wc -l
+    let resultList = await getCommandResult(["ls-files"], directory);
     if (!resultList) {
         // something went wrong, but don't try to parse a null or undefined str
         return 0;
@@ -102,8 +80,11 @@ export async function getRepoContributors(
         fileName = findFirstActiveDirectoryOrWorkspaceDirectory();
     }
 
-    const noSpacesFileName = fileName.replace(/^\s+/g, "");
-    const cacheId = `file-repo-contributors-info-${noSpacesFileName}`;
+    const cacheId = getRepoCacheId(
+        "file-repo-contributors-info",
+        fileName,
+        filterOutNonEmails
+    );
 
     let teamMembers: TeamMember[] = cacheMgr.get(cacheId);
     // return from cache if we have it
@@ -130,13 +111,17 @@ export async function getRepoContributorInfo(
     fileName: string,
     filterOutNonEmails: boolean = true
 ): Promise<RepoContributorInfo> {
-    const directory = getProjectDir(fileName);
+    // the file belongs to the nearest repo, it can be a submodule
+    const directory = getGitRootForFile(fileName);
     if (!directory || !isGitProject(directory)) {
         return null;
     }
 
-    const noSpacesProjDir = directory.replace(/^\s+/g, "");
-    const cacheId = `project-repo-contributor-info-${noSpacesProjDir}`;
+    const cacheId = getRepoCacheId(
+        "project-repo-contributor-info",
+        directory,
+        filterOutNonEmails
+    );
 
     let repoContributorInfo: RepoContributorInfo = cacheMgr.get(cacheId);
     // return from cache if we have it
@@ -153,35 +138,19 @@ export async function getRepoContributorInfo(
         repoContributorInfo.tag = resourceInfo.tag;
         repoContributorInfo.branch = resourceInfo.branch;
 
-        // username, email
-        let cmd = `git log --format='%an,%ae' | sort -u`;
-        // get the author name and email
-        let resultList = await getCommandResult(cmd, directory);
-        if (!resultList) {
-            // something went wrong, but don't try to parse a null or undefined str
-            return repoContributorInfo;
-        }
-
-        let map = {};
-        if (resultList && resultList.length > 0) {
-            // count name email
-            resultList.forEach((listInfo) => {
-                const devInfo = listInfo.split(",");
-                const name = devInfo[0];
-                const email = normalizeGithubEmail(
-                    devInfo[1],
-                    filterOutNonEmails
-                );
-                if (email && !map[email]) {
-                    const teamMember: TeamMember = new TeamMember();
-                    teamMember.name = name;
-                    teamMember.email = email;
-                    teamMember.identifier = resourceInfo.identifier;
-                    repoContributorInfo.members.push(teamMember);
-                    map[email] = email;
-                }
-            });
-        }
+        // one member per person, the emails they committed with are merged
+        const identities: TeamMember[] = await getContributorIdentities(directory);
+        identities.forEach((identity: TeamMember) => {
+            const email = normalizeGithubEmail(identity.email, filterOutNonEmails);
+            if (email) {
+                const teamMember: TeamMember = new TeamMember();
+                teamMember.name = identity.name;
+                teamMember.email = email;
+                teamMember.emails = identity.emails;
+                teamMember.identifier = resourceInfo.identifier;
+                repoContributorInfo.members.push(teamMember);
+            }
+        });
         repoContributorInfo.count = repoContributorInfo.members.length;
     }
 
@@ -200,8 +169,7 @@ export async function getResourceInfo(projectDir) {
         return {};
     }
 
-    const noSpacesProjDir = projectDir.replace(/^\s+/g, "");
-    const cacheId = `resource-info-${noSpacesProjDir}`;
+    const cacheId = getRepoCacheId("resource-info", projectDir);
 
     let resourceInfo = cacheMgr.get(cacheId);
     // return from cache if we have it
@@ -211,16 +179,16 @@ export async function getResourceInfo(projectDir) {
 
     resourceInfo = {};
 
-    const branch = await wrapExecPromise(
-        "git symbolic-ref --short HEAD",
+    const branch = await getCommandResultString(
+        ["symbolic-ref", "--short", "HEAD"],
         projectDir
     );
-    const identifier = await wrapExecPromise(
-        "git config --get remote.origin.url",
+    const identifier = await getCommandResultString(
+        ["config", "--get", "remote.origin.url"],
         projectDir
     );
-    let email = await wrapExecPromise("git config user.email", projectDir);
-    const tag = await wrapExecPromise("git describe --all", projectDir);
+    let email = await getCommandResultString(["config", "user.email"], projectDir);
+    const tag = await getCommandResultString(["describe", "--all"], projectDir);
 
     // both should be valid to return the resource info
     if (branch && identifier) {
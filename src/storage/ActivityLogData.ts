@@ -0,0 +1,141 @@
+import { isWindows, getSoftwareDir, coalesceNumber, logIt } from "../Util";
+import { FileChangeInfo } from "../model/models";
+import ActivityRecord, { ActivityFile } from "../model/ActivityRecord";
+import ActivityHeatmap from "../model/ActivityHeatmap";
+import KeystrokeStats from "../model/KeystrokeStats";
+
+const fs = require("fs");
+const moment = require("moment-timezone");
+
+const dayFormat = "YYYY-MM-DD";
+// the day files older than this are removed
+const MAX_LOG_DAYS = 365;
+
+/**
+ * The activity log keeps every payload in a file per day
+ * (one JSON record per line) under ~/.software/activity
+ */
+export function getActivityLogDir() {
+    let dir = getSoftwareDir();
+    if (isWindows()) {
+        dir += "\\activity";
+    } else {
+        dir += "/activity";
+    }
+    if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir);
+    }
+    return dir;
+}
+
+function getActivityLogFile(day: string) {
+    const dir = getActivityLogDir();
+    if (isWindows()) {
+        return `${dir}\\${day}.json`;
+    }
+    return `${dir}/${day}.json`;
+}
+
+/**
+ * Adds the processed payload to the activity log of the day it started
+ * @param payload
+ */
+export function appendActivityRecord(payload: KeystrokeStats) {
+    const record: ActivityRecord = new ActivityRecord();
+    record.start = payload.start;
+    record.end = payload.end;
+    record.local_start = payload.local_start;
+    record.local_end = payload.local_end;
+    record.timezone = payload.timezone;
+    record.keystrokes = coalesceNumber(payload.keystrokes);
+    record.active_seconds = coalesceNumber(payload.elapsed_active_code_time_seconds);
+    if (payload.project) {
+        record.project_directory = payload.project.directory;
+        record.project_name = payload.project.name;
+        record.branch = payload.project.branch || "";
+    }
+
+    Object.keys(payload.source).forEach((key) => {
+        const fileChangeInfo: FileChangeInfo = payload.source[key];
+        const file: ActivityFile = new ActivityFile();
+        file.fsPath = key;
+        file.syntax = fileChangeInfo.syntax;
+        file.keystrokes = coalesceNumber(fileChangeInfo.keystrokes);
+        file.lines_added = coalesceNumber(fileChangeInfo.linesAdded);
+        file.lines_removed = coalesceNumber(fileChangeInfo.linesRemoved);
+        record.files.push(file);
+        record.lines_added += file.lines_added;
+        record.lines_removed += file.lines_removed;
+    });
+
+    const day = moment.unix(record.start).format(dayFormat);
+    try {
+        fs.appendFileSync(getActivityLogFile(day), `${JSON.stringify(record)}\n`);
+    } catch (e) {
+        logIt(`Unable to update the activity log: ${e.message}`);
+    }
+}
+
+/**
+ * Returns the activity records between the start and end day (inclusive)
+ * @param startDay YYYY-MM-DD
+ * @param endDay YYYY-MM-DD
+ */
+export function getActivityRecords(startDay: string, endDay: string): ActivityRecord[] {
+    const records: ActivityRecord[] = [];
+    const day = moment(startDay, dayFormat);
+    while (day.format(dayFormat) <= endDay) {
+        const file = getActivityLogFile(day.format(dayFormat));
+        if (fs.existsSync(file)) {
+            const lines: string[] = fs.readFileSync(file, "utf8").split(/\r?\n/);
+            lines.forEach((line) => {
+                if (!line.trim()) {
+                    return;
+                }
+                try {
+                    records.push(JSON.parse(line));
+                } catch (e) {
+                    // skip the partially written line
+                }
+            });
+        }
+        day.add(1, "day");
+    }
+    return records;
+}
+
+/**
+ * Buckets the active minutes and keystrokes by day of week and hour of day
+ * @param startDay YYYY-MM-DD
+ * @param endDay YYYY-MM-DD
+ */
+export function getActivityHeatmap(startDay: string, endDay: string): ActivityHeatmap {
+    const heatmap: ActivityHeatmap = new ActivityHeatmap();
+    heatmap.start_day = startDay;
+    heatmap.end_day = endDay;
+
+    getActivityRecords(startDay, endDay).forEach((n: ActivityRecord) => {
+        const start = moment.unix(n.start);
+        heatmap.minutes[start.day()][start.hour()] += n.active_seconds / 60;
+        heatmap.keystrokes[start.day()][start.hour()] += n.keystrokes;
+    });
+    return heatmap;
+}
+
+/**
+ * Removes the day files that are older than the max number of log days
+ */
+export function pruneActivityLog() {
+    const oldestDay = moment().subtract(MAX_LOG_DAYS, "days").format(dayFormat);
+    try {
+        const dir = getActivityLogDir();
+        fs.readdirSync(dir).forEach((fileName: string) => {
+            const day = fileName.replace(".json", "");
+            if (/^\d{4}-\d{2}-\d{2}$/.test(day) && day < oldestDay) {
+                fs.unlinkSync(getActivityLogFile(day));
+            }
+        });
+    } catch (e) {
+        logIt(`Unable to prune the activity log: ${e.message}`);
+    }
+}
@@ -0,0 +1,126 @@
+import { isWindows, getSoftwareDir, getFileDataArray, getNowTimes } from "../Util";
+import { UNTITLED, NO_PROJ_NAME } from "../Constants";
+import ActivityRecord from "../model/ActivityRecord";
+import BranchTime from "../model/BranchTime";
+import BranchSwitch from "../model/BranchSwitch";
+import { getActivityRecords } from "./ActivityLogData";
+
+const fileIt = require("file-it");
+const moment = require("moment-timezone");
+const path = require("path");
+
+const dayFormat = "YYYY-MM-DD";
+// the switches older than this are removed
+const MAX_SWITCH_DAYS = 365;
+
+export function getBranchSwitchFile() {
+    let file = getSoftwareDir();
+    if (isWindows()) {
+        file += "\\branchSwitches.json";
+    } else {
+        file += "/branchSwitches.json";
+    }
+    return file;
+}
+
+/**
+ * Returns the branch switches between the start and end day (inclusive), oldest first
+ * @param startDay YYYY-MM-DD
+ * @param endDay YYYY-MM-DD
+ * @param repoDirs optional directories to filter by, the repos within them are included
+ */
+export function getBranchSwitches(startDay: string, endDay: string, repoDirs: string[] = []): BranchSwitch[] {
+    const switches: BranchSwitch[] = getFileDataArray(getBranchSwitchFile()) || [];
+    return switches.filter((n: BranchSwitch) => {
+        const day = moment.unix(n.timestamp).format(dayFormat);
+        return day >= startDay && day <= endDay && isInDirectories(n.repo_directory, repoDirs);
+    });
+}
+
+/**
+ * Returns the last branch that was checked out in the repo, or an empty
+ * string if a switch hasn't been recorded for it yet
+ * @param repoDir
+ */
+export function getLastSwitchedBranch(repoDir: string): string {
+    const switches: BranchSwitch[] = getFileDataArray(getBranchSwitchFile()) || [];
+    for (let i = switches.length - 1; i >= 0; i--) {
+        if (switches[i].repo_directory === repoDir) {
+            return switches[i].to_branch;
+        }
+    }
+    return "";
+}
+
+/**
+ * Adds the branch switch to the history
+ * @param repoDir
+ * @param fromBranch
+ * @param toBranch
+ */
+export function recordBranchSwitch(repoDir: string, fromBranch: string, toBranch: string) {
+    const nowTimes = getNowTimes();
+    const branchSwitch: BranchSwitch = new BranchSwitch();
+    branchSwitch.timestamp = nowTimes.now_in_sec;
+    branchSwitch.local_timestamp = nowTimes.local_now_in_sec;
+    branchSwitch.repo_directory = repoDir;
+    branchSwitch.from_branch = fromBranch;
+    branchSwitch.to_branch = toBranch;
+
+    const oldest = nowTimes.now_in_sec - MAX_SWITCH_DAYS * 60 * 60 * 24;
+    const switches: BranchSwitch[] = (getFileDataArray(getBranchSwitchFile()) || []).filter(
+        (n: BranchSwitch) => n.timestamp >= oldest
+    );
+    switches.push(branchSwitch);
+    fileIt.writeJsonFileSync(getBranchSwitchFile(), switches, { spaces: 4 });
+}
+
+/**
+ * Totals the active code time of the activity log by project and branch,
+ * sorted by the most time first. The payloads without a branch aren't counted.
+ * @param startDay YYYY-MM-DD
+ * @param endDay YYYY-MM-DD
+ * @param projectDirs optional project directories to filter by
+ */
+export function getBranchTimes(startDay: string, endDay: string, projectDirs: string[] = []): BranchTime[] {
+    const branchMap = {};
+    getActivityRecords(startDay, endDay)
+        .filter((n: ActivityRecord) => n.branch && isInDirectories(n.project_directory, projectDirs))
+        .forEach((n: ActivityRecord) => {
+            const directory = n.project_directory || UNTITLED;
+            const key = `${directory}_${n.branch}`;
+            let branchTime: BranchTime = branchMap[key];
+            if (!branchTime) {
+                branchTime = new BranchTime();
+                branchTime.project_directory = directory;
+                branchTime.project_name =
+                    n.project_name || (directory === UNTITLED ? NO_PROJ_NAME : path.basename(directory));
+                branchTime.branch = n.branch;
+                branchTime.first_start = n.start;
+                branchMap[key] = branchTime;
+            }
+            branchTime.active_seconds += n.active_seconds;
+            branchTime.keystrokes += n.keystrokes;
+            branchTime.lines_added += n.lines_added;
+            branchTime.lines_removed += n.lines_removed;
+            branchTime.first_start = Math.min(branchTime.first_start, n.start);
+            branchTime.last_end = Math.max(branchTime.last_end, n.end);
+        });
+
+    return Object.keys(branchMap)
+        .map((key) => branchMap[key])
+        .sort(
+            (a: BranchTime, b: BranchTime) =>
+                b.active_seconds - a.active_seconds || b.keystrokes - a.keystrokes
+        );
+}
+
+/**
+ * Returns true if there's no filter or the directory is, or is within, one of the directories
+ */
+function isInDirectories(directory: string, directories: string[]) {
+    if (!directories.length) {
+        return true;
+    }
+    return directories.some((dir) => directory === dir || (directory || "").indexOf(`${dir}${path.sep}`) === 0);
+}
@@ -0,0 +1,242 @@
+import { isWindows, getSoftwareDir, getFileDataArray, nowInSecs } from "../Util";
+import { CommitInfo } from "../model/models";
+import CommitTime from "../model/CommitTime";
+import ActivityRecord, { ActivityFile } from "../model/ActivityRecord";
+import { getActivityRecords } from "./ActivityLogData";
+import { getBranchCommitFiles, getStagedFiles, getHeadCommitTimestamp } from "../repo/GitUtil";
+import { getResourceInfo } from "../repo/KpmRepoManager";
+import { getAuthorEmails } from "../repo/GitIdentity";
+
+const fileIt = require("file-it");
+const moment = require("moment-timezone");
+const path = require("path");
+
+const dayFormat = "YYYY-MM-DD";
+// the activity before this is not counted for a commit
+const MAX_WINDOW_SECONDS = 60 * 60 * 24 * 14;
+// the stored commits older than this are removed
+const MAX_STORED_DAYS = 365;
+
+export function getCommitTimeFile() {
+    let file = getSoftwareDir();
+    if (isWindows()) {
+        file += "\\commitTime.json";
+    } else {
+        file += "/commitTime.json";
+    }
+    return file;
+}
+
+/**
+ * Returns every commit time that has been stored
+ */
+export function getStoredCommitTimes(): CommitTime[] {
+    const commitTimes: CommitTime[] = getFileDataArray(getCommitTimeFile());
+    return commitTimes || [];
+}
+
+/**
+ * Returns the time it took to write each of your commits on the current
+ * branch between the start and end (unix seconds). The active code time
+ * of the files a commit changed, between the previous commit on the
+ * branch and that commit, is assigned to the commit. The results are
+ * stored so each commit is only correlated once.
+ * @param repoDir
+ * @param start
+ * @param end
+ */
+export async function getCommitTimes(repoDir: string, start: number, end: number): Promise<CommitTime[]> {
+    // include the commits before the start, they begin the window of the first commit
+    const commits: CommitInfo[] = await getBranchCommitFiles(repoDir, start - MAX_WINDOW_SECONDS, end);
+    if (!commits.length) {
+        return [];
+    }
+
+    const resourceInfo = await getResourceInfo(repoDir);
+    const email = resourceInfo && resourceInfo.email ? resourceInfo.email : "";
+    // your commits with any of your emails
+    const emails: string[] = (await getAuthorEmails(repoDir, email)).map((n) => n.toLowerCase());
+
+    const stored: CommitTime[] = getStoredCommitTimes();
+    const storedMap = {};
+    stored.forEach((n: CommitTime) => {
+        storedMap[n.commit_id] = n;
+    });
+
+    let records: ActivityRecord[] = null;
+    const commitTimes: CommitTime[] = [];
+    const updates: CommitTime[] = [];
+    for (let i = 0; i < commits.length; i++) {
+        const commit: CommitInfo = commits[i];
+        if (commit.timestamp < start || commit.timestamp > end || (email && emails.indexOf(commit.email.toLowerCase()) === -1)) {
+            continue;
+        }
+
+        let commitTime: CommitTime = storedMap[commit.commitId];
+        if (!commitTime) {
+            if (!records) {
+                // read the activity log once for all of the commits
+                records = getActivityRecords(
+                    moment.unix(start - MAX_WINDOW_SECONDS).format(dayFormat),
+                    moment.unix(end).format(dayFormat)
+                );
+            }
+            const previousTimestamp = i > 0 ? commits[i - 1].timestamp : 0;
+            commitTime = correlateCommit(commit, repoDir, previousTimestamp, records);
+            updates.push(commitTime);
+        }
+        commitTimes.push(commitTime);
+    }
+
+    if (updates.length) {
+        saveCommitTimes(stored.concat(updates));
+    }
+    return commitTimes;
+}
+
+/**
+ * Returns the time of one of your recent commits, or null if the
+ * commit isn't on the current branch within the last two weeks
+ * @param repoDir
+ * @param commitId
+ */
+export async function getCommitTime(repoDir: string, commitId: string): Promise<CommitTime> {
+    const stored: CommitTime = getStoredCommitTimes().find((n: CommitTime) => n.commit_id === commitId);
+    if (stored) {
+        return stored;
+    }
+    // the window is rounded to the day, the branch commits stay cached between refreshes
+    const start = moment().startOf("day").unix() - MAX_WINDOW_SECONDS;
+    const end = moment().endOf("day").unix();
+    const commitTimes: CommitTime[] = await getCommitTimes(repoDir, start, end);
+    return commitTimes.find((n: CommitTime) => n.commit_id === commitId) || null;
+}
+
+/**
+ * Assigns the active seconds of the activity records within the commit's
+ * window to the commit
+ */
+function correlateCommit(
+    commit: CommitInfo,
+    repoDir: string,
+    previousTimestamp: number,
+    records: ActivityRecord[]
+): CommitTime {
+    const commitTime: CommitTime = new CommitTime();
+    commitTime.commit_id = commit.commitId;
+    commitTime.repo_directory = repoDir;
+    commitTime.timestamp = commit.timestamp;
+    commitTime.email = commit.email;
+    commitTime.message = commit.message;
+    commitTime.window_start = Math.max(previousTimestamp, commit.timestamp - MAX_WINDOW_SECONDS);
+
+    const activity = getFileActivity(commit.files, commitTime.window_start, commit.timestamp, records);
+    commitTime.active_seconds = activity.active_seconds;
+    commitTime.keystrokes = activity.keystrokes;
+    commitTime.files_with_activity = activity.files_with_activity;
+    return commitTime;
+}
+
+/**
+ * Returns the active code time spent on the staged files since the last
+ * commit on the branch, the time the next commit took to write
+ * @param repoDir
+ */
+export async function getStagedCodeTimeSeconds(repoDir: string): Promise<number> {
+    const files: string[] = await getStagedFiles(repoDir);
+    if (!files.length) {
+        return 0;
+    }
+    const now = nowInSecs();
+    const windowStart = Math.max(await getHeadCommitTimestamp(repoDir), now - MAX_WINDOW_SECONDS);
+    const records: ActivityRecord[] = getActivityRecords(
+        moment.unix(windowStart).format(dayFormat),
+        moment.unix(now).format(dayFormat)
+    );
+    return getFileActivity(files, windowStart, now, records).active_seconds;
+}
+
+/**
+ * Returns the active code time of every file with activity since the
+ * last commit on the branch, by its normalized full path
+ * @param repoDir
+ */
+export async function getCodeTimeSecondsByFile(repoDir: string) {
+    const now = nowInSecs();
+    const windowStart = Math.max(await getHeadCommitTimestamp(repoDir), now - MAX_WINDOW_SECONDS);
+    const records: ActivityRecord[] = getActivityRecords(
+        moment.unix(windowStart).format(dayFormat),
+        moment.unix(now).format(dayFormat)
+    );
+    const secondsByFile = {};
+    getFileShares(windowStart, now, records, (fsPath: string, seconds: number) => {
+        secondsByFile[fsPath] = (secondsByFile[fsPath] || 0) + seconds;
+    });
+    Object.keys(secondsByFile).forEach((fsPath) => {
+        secondsByFile[fsPath] = Math.round(secondsByFile[fsPath]);
+    });
+    return secondsByFile;
+}
+
+/**
+ * Totals the activity of the files within the window
+ */
+function getFileActivity(files: string[], windowStart: number, windowEnd: number, records: ActivityRecord[]) {
+    const fileSet = {};
+    files.forEach((file) => {
+        fileSet[normalizeFilePath(file)] = true;
+    });
+
+    let activeSeconds = 0;
+    let keystrokes = 0;
+    const filesWithActivity = {};
+    getFileShares(windowStart, windowEnd, records, (fsPath: string, seconds: number, f: ActivityFile) => {
+        if (!fileSet[fsPath]) {
+            return;
+        }
+        activeSeconds += seconds;
+        keystrokes += f.keystrokes;
+        filesWithActivity[fsPath] = true;
+    });
+    return {
+        active_seconds: Math.round(activeSeconds),
+        keystrokes,
+        files_with_activity: Object.keys(filesWithActivity).length,
+    };
+}
+
+/**
+ * Calls the callback with each file's share of the active seconds of the
+ * records within the window, split by their keystrokes
+ */
+function getFileShares(
+    windowStart: number,
+    windowEnd: number,
+    records: ActivityRecord[],
+    callback: (fsPath: string, seconds: number, f: ActivityFile) => void
+) {
+    records
+        .filter((n: ActivityRecord) => n.start > windowStart && n.start <= windowEnd)
+        .forEach((n: ActivityRecord) => {
+            const recordFiles: ActivityFile[] = n.files || [];
+            const totalKeystrokes = recordFiles.reduce((sum, f: ActivityFile) => sum + f.keystrokes, 0);
+            recordFiles.forEach((f: ActivityFile) => {
+                const share = totalKeystrokes ? f.keystrokes / totalKeystrokes : 1 / recordFiles.length;
+                callback(normalizeFilePath(f.fsPath), n.active_seconds * share, f);
+            });
+        });
+}
+
+function saveCommitTimes(commitTimes: CommitTime[]) {
+    const oldest = nowInSecs() - MAX_STORED_DAYS * 60 * 60 * 24;
+    fileIt.writeJsonFileSync(
+        getCommitTimeFile(),
+        commitTimes.filter((n: CommitTime) => n.timestamp >= oldest),
+        { spaces: 4 }
+    );
+}
+
+function normalizeFilePath(fsPath: string) {
+    const normalized = path.normalize(fsPath || "");
+    return isWindows() ? normalized.toLowerCase() : normalized;
+}
@@ -0,0 +1,273 @@
+import {
+    isWindows,
+    getSoftwareDir,
+    getFileDataArray,
+    getNowTimes,
+    coalesceNumber,
+} from "../Util";
+import { UNTITLED, NO_PROJ_NAME } from "../Constants";
+import { FileChangeInfo } from "../model/models";
+import DayHistory from "../model/DayHistory";
+import FileHistory from "../model/FileHistory";
+import LanguageHistory from "../model/LanguageHistory";
+import HistorySummary from "../model/HistorySummary";
+import Project from "../model/Project";
+import TimeData from "../model/TimeData";
+import { getTimeDataSummaryFile } from "./TimeSummaryData";
+import { getFileChangeSummaryAsJson } from "./FileChangeInfoSummaryData";
+
+const fileIt = require("file-it");
+const moment = require("moment-timezone");
+const path = require("path");
+
+const dayFormat = "YYYY-MM-DD";
+// number of files kept per day and project
+const MAX_TOP_FILES = 10;
+
+export function getHistoryFile() {
+    let file = getSoftwareDir();
+    if (isWindows()) {
+        file += "\\history.json";
+    } else {
+        file += "/history.json";
+    }
+    return file;
+}
+
+/**
+ * Returns every day history entry that has been rolled up
+ */
+export function getDayHistory(): DayHistory[] {
+    const entries: DayHistory[] = getFileDataArray(getHistoryFile());
+    return entries || [];
+}
+
+/**
+ * Adds the current summary data to the history file. This is called
+ * before the summary files are cleared for the new day. An entry that
+ * already exists for the same day and project is replaced so running
+ * it more than once won't double count.
+ * @param day the day the file change summary belongs to
+ */
+export function rollupSummaryDataToHistory(day: string) {
+    const rollup: DayHistory[] = buildDayHistoryFromSummaryData(day);
+    if (!rollup.length) {
+        return;
+    }
+
+    const entries: DayHistory[] = mergeDayHistory(getDayHistory(), rollup);
+    fileIt.writeJsonFileSync(getHistoryFile(), entries, { spaces: 4 });
+}
+
+/**
+ * Returns the day history entries between the start and end day (inclusive),
+ * including the data that has not been rolled up yet
+ * @param startDay YYYY-MM-DD
+ * @param endDay YYYY-MM-DD
+ * @param projectDir optional project directory to filter by
+ */
+export function getHistoryForRange(
+    startDay: string,
+    endDay: string,
+    projectDir: string = null
+): DayHistory[] {
+    const { day } = getNowTimes();
+    const entries: DayHistory[] = mergeDayHistory(
+        getDayHistory(),
+        buildDayHistoryFromSummaryData(day)
+    );
+
+    return entries
+        .filter((n: DayHistory) => n.day >= startDay && n.day <= endDay)
+        .filter((n: DayHistory) => !projectDir || n.project.directory === projectDir)
+        .sort((a: DayHistory, b: DayHistory) => a.day.localeCompare(b.day));
+}
+
+/**
+ * Returns the day history entries for the last number of days, including today
+ * @param numDays
+ * @param projectDir optional project directory to filter by
+ */
+export function getHistoryForLastDays(
+    numDays: number,
+    projectDir: string = null
+): DayHistory[] {
+    const { day } = getNowTimes();
+    const startDay = moment()
+        .subtract(Math.max(numDays - 1, 0), "days")
+        .format(dayFormat);
+    return getHistoryForRange(startDay, day, projectDir);
+}
+
+/**
+ * Totals the day history entries into a single summary
+ * @param entries
+ */
+export function getHistorySummary(entries: DayHistory[]): HistorySummary {
+    const summary: HistorySummary = new HistorySummary();
+    const days = {};
+    entries.forEach((n: DayHistory) => {
+        days[n.day] = true;
+        if (!summary.start_day || n.day < summary.start_day) {
+            summary.start_day = n.day;
+        }
+        if (!summary.end_day || n.day > summary.end_day) {
+            summary.end_day = n.day;
+        }
+        summary.session_seconds += n.session_seconds;
+        summary.editor_seconds += n.editor_seconds;
+        summary.file_seconds += n.file_seconds;
+        summary.keystrokes += n.keystrokes;
+        summary.lines_added += n.lines_added;
+        summary.lines_removed += n.lines_removed;
+        summary.files_changed += n.files_changed;
+    });
+    summary.days = Object.keys(days).length;
+    return summary;
+}
+
+/**
+ * Totals the languages of the day history entries, sorted by the file time
+ * @param entries
+ */
+export function getLanguageBreakdown(entries: DayHistory[]): LanguageHistory[] {
+    const languages: LanguageHistory[] = [];
+    entries.forEach((n: DayHistory) => {
+        (n.languages || []).forEach((language: LanguageHistory) => {
+            let total: LanguageHistory = languages.find((l) => l.language === language.language);
+            if (!total) {
+                total = new LanguageHistory();
+                total.language = language.language;
+                languages.push(total);
+            }
+            total.keystrokes += language.keystrokes;
+            total.lines_added += language.lines_added;
+            total.lines_removed += language.lines_removed;
+            total.duration_seconds += language.duration_seconds;
+            total.files += language.files;
+        });
+    });
+    return languages.sort(
+        (a: LanguageHistory, b: LanguageHistory) =>
+            b.duration_seconds - a.duration_seconds || b.keystrokes - a.keystrokes
+    );
+}
+
+/**
+ * Build the day history entries from the time data and file change
+ * summary files. The time data keeps its own day, the file change info
+ * doesn't have one so it's assigned to the day passed in.
+ * @param day
+ */
+function buildDayHistoryFromSummaryData(day: string): DayHistory[] {
+    const historyMap = {};
+
+    const timeDataList: TimeData[] = getFileDataArray(getTimeDataSummaryFile()) || [];
+    timeDataList.forEach((n: TimeData) => {
+        const entry: DayHistory = getOrCreateDayHistory(historyMap, n.day, n.project);
+        entry.session_seconds += coalesceNumber(n.session_seconds);
+        entry.editor_seconds += coalesceNumber(n.editor_seconds);
+        entry.file_seconds += coalesceNumber(n.file_seconds);
+    });
+
+    const fileChangeInfoMap = getFileChangeSummaryAsJson();
+    Object.keys(fileChangeInfoMap).forEach((key) => {
+        const fileChangeInfo: FileChangeInfo = fileChangeInfoMap[key];
+        const project: Project = new Project();
+        project.directory = fileChangeInfo.projectDir || UNTITLED;
+        const entry: DayHistory = getOrCreateDayHistory(historyMap, day, project);
+        entry.keystrokes += coalesceNumber(fileChangeInfo.keystrokes);
+        entry.lines_added += coalesceNumber(fileChangeInfo.linesAdded);
+        entry.lines_removed += coalesceNumber(fileChangeInfo.linesRemoved);
+        entry.files_changed += 1;
+        const fileHistory: FileHistory = buildFileHistory(fileChangeInfo);
+        entry.top_files.push(fileHistory);
+        addToLanguageHistory(entry.languages, fileHistory);
+    });
+
+    const entries: DayHistory[] = Object.keys(historyMap)
+        .map((key) => historyMap[key])
+        .filter((n: DayHistory) => n.day && hasActivity(n));
+    entries.forEach((n: DayHistory) => {
+        n.top_files = n.top_files
+            .sort((a: FileHistory, b: FileHistory) => b.keystrokes - a.keystrokes)
+            .slice(0, MAX_TOP_FILES);
+    });
+    return entries;
+}
+
+function buildFileHistory(fileChangeInfo: FileChangeInfo): FileHistory {
+    const fileHistory: FileHistory = new FileHistory();
+    fileHistory.name = fileChangeInfo.name;
+    fileHistory.fsPath = fileChangeInfo.fsPath;
+    fileHistory.syntax = fileChangeInfo.syntax;
+    fileHistory.keystrokes = coalesceNumber(fileChangeInfo.keystrokes);
+    fileHistory.lines_added = coalesceNumber(fileChangeInfo.linesAdded);
+    fileHistory.lines_removed = coalesceNumber(fileChangeInfo.linesRemoved);
+    fileHistory.duration_seconds = coalesceNumber(fileChangeInfo.duration_seconds);
+    return fileHistory;
+}
+
+function addToLanguageHistory(languages: LanguageHistory[], fileHistory: FileHistory) {
+    const name = fileHistory.syntax || "other";
+    let language: LanguageHistory = languages.find((n) => n.language === name);
+    if (!language) {
+        language = new LanguageHistory();
+        language.language = name;
+        languages.push(language);
+    }
+    language.keystrokes += fileHistory.keystrokes;
+    language.lines_added += fileHistory.lines_added;
+    language.lines_removed += fileHistory.lines_removed;
+    language.duration_seconds += fileHistory.duration_seconds;
+    language.files += 1;
+}
+
+function getOrCreateDayHistory(historyMap, day: string, project: Project): DayHistory {
+    const directory = project && project.directory ? project.directory : UNTITLED;
+    const key = getDayHistoryKey(day, directory);
+    let entry: DayHistory = historyMap[key];
+    if (!entry) {
+        entry = new DayHistory();
+        entry.day = day;
+        entry.project = new Project();
+        entry.project.directory = directory;
+        historyMap[key] = entry;
+    }
+    // the time data has the complete project info
+    if (project && project.name && !entry.project.name) {
+        entry.project.name = project.name;
+        entry.project.identifier = project.identifier;
+    }
+    if (!entry.project.name) {
+        entry.project.name = directory === UNTITLED ? NO_PROJ_NAME : path.basename(directory);
+    }
+    return entry;
+}
+
+/**
+ * Replace the existing entries with the updates that have the same day and project
+ */
+function mergeDayHistory(entries: DayHistory[], updates: DayHistory[]): DayHistory[] {
+    const updateKeys = {};
+    updates.forEach((n: DayHistory) => {
+        updateKeys[getDayHistoryKey(n.day, n.project.directory)] = true;
+    });
+    const merged: DayHistory[] = entries.filter(
+        (n: DayHistory) => !updateKeys[getDayHistoryKey(n.day, n.project.directory)]
+    );
+    return merged.concat(updates);
+}
+
+function getDayHistoryKey(day: string, directory: string) {
+    return `${day}_${directory}`;
+}
+
+function hasActivity(entry: DayHistory) {
+    return (
+        entry.session_seconds > 0 ||
+        entry.editor_seconds > 0 ||
+        entry.file_seconds > 0 ||
+        entry.keystrokes > 0
+    );
+}
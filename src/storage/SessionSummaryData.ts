@@ -12,6 +12,8 @@ import {
 import { DEFAULT_SESSION_THRESHOLD_SECONDS } from "../Constants";
 import CodeTimeSummary from "../model/CodeTimeSummary";
 import { getCodeTimeSummary } from "./TimeSummaryData";
+import { getHistoryForLastDays, getHistorySummary } from "./HistoryData";
+import HistorySummary from "../model/HistorySummary";
 
 const fileIt = require("file-it");
 
@@ -145,7 +147,11 @@ export function updateStatusBarWithSummaryData() {
     const minutesStr = humanizeMinutes(codeTimeSummary.activeCodeTimeMinutes);
 
     const msg = `${inFlowIcon} ${minutesStr}`;
-    showStatus(msg, null);
+
+    const weekSummary: HistorySummary = getHistorySummary(getHistoryForLastDays(7));
+    const weekMinutesStr = humanizeMinutes(weekSummary.session_seconds / 60);
+    const tooltip = `Active code time today. Last 7 days: ${weekMinutesStr}. Click to see more from Code Time.`;
+    showStatus(msg, tooltip);
 }
 
 export function getStatusBarKpmItem(): KpmItem {
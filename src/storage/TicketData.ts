@@ -0,0 +1,89 @@
+import { UNTITLED, NO_PROJ_NAME } from "../Constants";
+import { CommitInfo } from "../model/models";
+import ActivityRecord from "../model/ActivityRecord";
+import TicketTime from "../model/TicketTime";
+import { getActivityRecords } from "./ActivityLogData";
+import { getCommits } from "../repo/GitUtil";
+import { getTicketPatterns, extractTicketIds } from "../repo/GitTicket";
+
+const moment = require("moment-timezone");
+const path = require("path");
+
+const dayFormat = "YYYY-MM-DD";
+// the commits after the range that can still link the time to a ticket
+const MAX_COMMIT_LOOKAHEAD_SECONDS = 60 * 60 * 24 * 14;
+
+/**
+ * Totals the active code time of the activity log by ticket, project and day.
+ * The tickets come from the payload's branch name. When the branch doesn't
+ * have one, the time goes to the tickets of your next commit in the project.
+ * Time with more than one ticket is split evenly between them.
+ * @param startDay YYYY-MM-DD
+ * @param endDay YYYY-MM-DD
+ * @param projectDirs optional project directories to filter by
+ */
+export async function getTicketTimes(
+    startDay: string,
+    endDay: string,
+    projectDirs: string[] = []
+): Promise<TicketTime[]> {
+    const patterns: RegExp[] = getTicketPatterns();
+    const records: ActivityRecord[] = getActivityRecords(startDay, endDay).filter(
+        (n: ActivityRecord) => !projectDirs.length || projectDirs.indexOf(n.project_directory) !== -1
+    );
+
+    const branchTickets = {};
+    const projectCommits = {};
+    const rangeStart = moment(startDay, dayFormat).startOf("day").unix();
+    const rangeEnd = moment(endDay, dayFormat).endOf("day").unix() + MAX_COMMIT_LOOKAHEAD_SECONDS;
+
+    const ticketMap = {};
+    for (let i = 0; i < records.length; i++) {
+        const record: ActivityRecord = records[i];
+        const directory = record.project_directory || UNTITLED;
+
+        if (record.branch && branchTickets[record.branch] === undefined) {
+            branchTickets[record.branch] = extractTicketIds(record.branch, patterns);
+        }
+        let tickets: string[] = record.branch ? branchTickets[record.branch] : [];
+
+        if (!tickets.length && directory !== UNTITLED) {
+            if (!projectCommits[directory]) {
+                const commits: CommitInfo[] = await getCommits(directory, rangeStart, rangeEnd);
+                projectCommits[directory] = commits
+                    .slice()
+                    .sort((a: CommitInfo, b: CommitInfo) => a.timestamp - b.timestamp);
+            }
+            const nextCommit: CommitInfo = projectCommits[directory].find(
+                (n: CommitInfo) => n.timestamp >= record.end
+            );
+            tickets = nextCommit ? extractTicketIds(nextCommit.message, patterns) : [];
+        }
+
+        // the time without a ticket is kept under an empty ticket id
+        const ticketIds: string[] = tickets.length ? tickets : [""];
+        const day = moment.unix(record.start).format(dayFormat);
+        ticketIds.forEach((ticket: string) => {
+            const key = `${ticket}_${day}_${directory}`;
+            let ticketTime: TicketTime = ticketMap[key];
+            if (!ticketTime) {
+                ticketTime = new TicketTime();
+                ticketTime.ticket = ticket;
+                ticketTime.day = day;
+                ticketTime.project_directory = directory;
+                ticketTime.project_name =
+                    record.project_name || (directory === UNTITLED ? NO_PROJ_NAME : path.basename(directory));
+                ticketMap[key] = ticketTime;
+            }
+            ticketTime.active_seconds += record.active_seconds / ticketIds.length;
+            ticketTime.keystrokes += Math.round(record.keystrokes / ticketIds.length);
+            if (record.branch && ticketTime.branches.indexOf(record.branch) === -1) {
+                ticketTime.branches.push(record.branch);
+            }
+        });
+    }
+
+    return Object.keys(ticketMap)
+        .map((key) => ticketMap[key])
+        .sort((a: TicketTime, b: TicketTime) => a.day.localeCompare(b.day) || a.ticket.localeCompare(b.ticket));
+}
@@ -1,22 +1,24 @@
 import { KpmItem, SessionSummary, FileChangeInfo, CommitChangeStats } from "../model/models";
 import {
   humanizeMinutes,
-  getWorkspaceFolders,
   getItem,
   isStatusBarTextVisible,
   logIt,
   findFirstActiveDirectoryOrWorkspaceDirectory,
   getNowTimes,
   setItem,
+  isLocalOnlyMode,
+  isGitDataDisabled,
 } from "../Util";
 import {
   getUncommitedChanges,
   getTodaysCommits,
   getLastCommitId,
-  getRepoUrlLink,
+  getRepoRemoteInfo,
+  getWorkspaceRepos,
+  getRepoConfigUserEmail,
 } from "../repo/GitUtil";
 import {
-  WorkspaceFolder,
   TreeItem,
   TreeItemCollapsibleState,
   Command,
@@ -27,9 +29,27 @@ import { getFileChangeSummaryAsJson } from "../storage/FileChangeInfoSummaryData
 import { getSessionSummaryData, getSessionSummaryFileAsJson } from "../storage/SessionSummaryData";
 import TeamMember from "../model/TeamMember";
 import { getRepoContributors } from "../repo/KpmRepoManager";
+import { isMemberEmail } from "../repo/GitIdentity";
+import { getCommitUrl } from "../repo/GitRemote";
+import RemoteInfo from "../model/RemoteInfo";
+import CommitTime from "../model/CommitTime";
+import ChurnStats from "../model/ChurnStats";
+import ChurnSummary from "../model/ChurnSummary";
+import { getChurnSummary, getCachedChurnSummary, getReworkPercent, getHotspots } from "../repo/GitChurn";
+import Ownership, { Owner } from "../model/Ownership";
+import OwnershipSummary from "../model/OwnershipSummary";
+import { getOwnershipSummary, getCachedOwnershipSummary, getOwnershipChildren } from "../repo/GitOwnership";
+import { getCommitTime } from "../storage/CommitTimeData";
+import GitRepo from "../model/GitRepo";
 import CodeTimeSummary from "../model/CodeTimeSummary";
 import { getCodeTimeSummary } from "../storage/TimeSummaryData";
 import { SummaryManager } from "../managers/SummaryManager";
+import { OutboxManager } from "../managers/OutboxManager";
+import { IgnoreManager } from "../managers/IgnoreManager";
+import { getHistoryForRange, getLanguageBreakdown } from "../storage/HistoryData";
+import LanguageHistory from "../model/LanguageHistory";
+import BranchTime from "../model/BranchTime";
+import { getBranchTimes } from "../storage/BranchData";
 
 const numeral = require("numeral");
 const moment = require("moment-timezone");
@@ -38,10 +58,19 @@ const resourcePath: string = path.join(__dirname, "resources");
 
 let counter = 0;
 
+// the levels of folders in the ownership tree
+const MAX_OWNERSHIP_DEPTH = 3;
+// wait before computing a repo summary again that came back empty
+const EMPTY_SUMMARY_RETRY_MILLIS = 1000 * 60 * 30;
+
 export class KpmProviderManager {
   private static instance: KpmProviderManager;
 
   private kpmTreeOpen: boolean = false;
+  // the repo summaries computed in the background by name and directory, true
+  // while it's pending or the time it last came back empty
+  private backgroundSummaries = {};
+  private summaryQueue: Promise<any> = Promise.resolve();
 
   constructor() { }
 
@@ -67,8 +96,12 @@ export class KpmProviderManager {
     const treeItems: KpmItem[] = [];
 
     const name = await getItem("name");
+    const localOnly = isLocalOnlyMode();
 
-    if (!name) {
+    if (localOnly) {
+      // no account in local-only mode
+      treeItems.push(this.getLocalOnlyModeItem());
+    } else if (!name) {
       treeItems.push(this.getSignUpButton("Google", null));
 
       treeItems.push(this.getSignUpButton("GitHub", "white"));
@@ -88,15 +121,22 @@ export class KpmProviderManager {
 
     treeItems.push(this.getDividerButton());
 
-    treeItems.push(this.getWebViewDashboardButton());
+    if (!localOnly) {
+      treeItems.push(this.getWebViewDashboardButton());
+    }
 
     // view summary button node
     treeItems.push(this.getCodeTimeDashboardButton());
 
-    // view project summary button node
-    treeItems.push(this.getViewProjectSummaryButton());
+    // dashboard webview button node
+    treeItems.push(this.getDashboardButton());
+
+    if (!localOnly) {
+      // view project summary button node
+      treeItems.push(this.getViewProjectSummaryButton());
+    }
 
-    if (!name) {
+    if (!name || localOnly) {
       treeItems.push(this.getDividerButton());
 
       // toggle status bar button
@@ -162,8 +202,11 @@ export class KpmProviderManager {
     treeItems.push(...currentKeystrokesItems);
 
     // show the files changed metric
-    const fileChangeInfoMap = getFileChangeSummaryAsJson();
-    const filesChanged = fileChangeInfoMap ? Object.keys(fileChangeInfoMap).length : 0;
+    const fileChangeInfoMap = getFileChangeSummaryAsJson() || {};
+    // leave out the files that were ignored after they were tracked
+    const ignoreMgr: IgnoreManager = IgnoreManager.getInstance();
+    const fileKeys = Object.keys(fileChangeInfoMap).filter((key) => !ignoreMgr.isIgnored(key));
+    const filesChanged = fileKeys.length;
     if (filesChanged > 0) {
       treeItems.push(
         this.buildTreeMetricItem("Files changed", "Files changed today", `Today: ${filesChanged}`, null, null, "ct_top_files_by_kpm_toggle_node")
@@ -172,7 +215,7 @@ export class KpmProviderManager {
       // get the file change info
       if (filesChanged) {
         // turn this into an array
-        const fileChangeInfos = Object.keys(fileChangeInfoMap).map((key) => {
+        const fileChangeInfos = fileKeys.map((key) => {
           return fileChangeInfoMap[key];
         });
 
@@ -196,23 +239,47 @@ export class KpmProviderManager {
       }
     }
 
+    // show the time and keystrokes per language
+    const languagesItem: KpmItem = this.buildLanguagesItem();
+    if (languagesItem) {
+      treeItems.push(languagesItem);
+    }
+
+    // show the active code time per branch
+    const branchesItem: KpmItem = this.buildBranchesItem();
+    if (branchesItem) {
+      treeItems.push(branchesItem);
+    }
+
+    // show the payloads waiting to be sent
+    const outboxItem: KpmItem = this.buildOutboxItem();
+    if (outboxItem) {
+      treeItems.push(outboxItem);
+    }
+
     return treeItems;
   }
 
   async getCommitTreeParents(): Promise<KpmItem[]> {
-    const folders: WorkspaceFolder[] = getWorkspaceFolders();
     const treeItems: KpmItem[] = [];
 
+    if (isGitDataDisabled()) {
+      // the git nodes are hidden when git data collection is turned off
+      return treeItems;
+    }
+
+    // the worktrees and submodules are listed separately from their main repo
+    const repos: GitRepo[] = getWorkspaceRepos();
+
     // show the git insertions and deletions
-    if (folders && folders.length > 0) {
+    if (repos.length > 0) {
       const openChangesChildren: KpmItem[] = [];
       const committedChangesChildren: KpmItem[] = [];
-      for (let i = 0; i < folders.length; i++) {
-        const workspaceFolder = folders[i];
-        const projectDir = workspaceFolder.uri.fsPath;
+      for (let i = 0; i < repos.length; i++) {
+        const repo: GitRepo = repos[i];
+        const projectDir = repo.directory;
         const currentChagesSummary: CommitChangeStats = await getUncommitedChanges(projectDir);
-        // get the folder name from the path
-        const name = workspaceFolder.name;
+        const name = repo.type === "repo" ? repo.name : `${repo.name} (${repo.type})`;
 
         const openChangesMetrics: KpmItem[] = [];
         openChangesMetrics.push(
@@ -296,12 +363,17 @@ export class KpmProviderManager {
   async getTeamTreeParents(): Promise<KpmItem[]> {
     const treeItems: KpmItem[] = [];
 
+    if (isGitDataDisabled()) {
+      return treeItems;
+    }
+
     const activeRootPath = findFirstActiveDirectoryOrWorkspaceDirectory();
 
     // get team members
     const teamMembers: TeamMember[] = await getRepoContributors(activeRootPath, false);
 
-    const remoteUrl: string = await getRepoUrlLink(activeRootPath);
+    const remoteInfo: RemoteInfo = await getRepoRemoteInfo(activeRootPath);
+    const userEmail: string = await getRepoConfigUserEmail(activeRootPath);
 
     if (teamMembers && teamMembers.length) {
       // get the 1st one to get the identifier
@@ -310,6 +382,18 @@ export class KpmProviderManager {
       );
       treeItems.push(item);
 
+      // the files with the most rework and churn
+      const hotspotsItem: KpmItem = await this.buildHotspotsItem(activeRootPath);
+      if (hotspotsItem) {
+        treeItems.push(hotspotsItem);
+      }
+
+      // the owners and bus factor of each folder
+      const ownershipItem: KpmItem = await this.buildOwnershipItem(activeRootPath);
+      if (ownershipItem) {
+        treeItems.push(ownershipItem);
+      }
+
       for (let i = 0; i < teamMembers.length; i++) {
         const member: TeamMember = teamMembers[i];
         const item: KpmItem = new KpmItem();
@@ -323,14 +407,29 @@ export class KpmProviderManager {
           // add this as child
           const commitItem: KpmItem = new KpmItem();
           commitItem.label = lastCommitInfo.comment;
-          commitItem.command = "codetime.launchCommitUrl";
+          const commitUrl: string = getCommitUrl(remoteInfo, lastCommitInfo.commitId);
+          if (commitUrl) {
+            // there's no link without a known remote
+            commitItem.command = "codetime.launchCommitUrl";
+          }
 
           commitItem.location = "ct_contributors_tree";
           commitItem.name = "ct_contributor_last_commit_url_link";
           commitItem.interactionIcon = "none";
           commitItem.hideCTAInTracker = true;
 
-          commitItem.commandArgs = [commitItem, `${remoteUrl}/commit/${lastCommitInfo.commitId}`];
+          commitItem.commandArgs = [commitItem, commitUrl];
+
+          if (isMemberEmail(member, userEmail)) {
+            // show how long your last commit took
+            const commitTimeItem: KpmItem = await this.getCommitTimeItem(
+              activeRootPath,
+              lastCommitInfo.commitId
+            );
+            if (commitTimeItem) {
+              commitItem.children = [commitTimeItem];
+            }
+          }
           item.children = [commitItem];
         }
 
@@ -344,6 +443,191 @@ export class KpmProviderManager {
     return treeItems;
   }
 
+  async buildHotspotsItem(projectDir: string): Promise<KpmItem> {
+    const churnSummary: ChurnSummary = getCachedChurnSummary(projectDir);
+    if (!churnSummary) {
+      // git log and blame take a while on large repos, don't hold up the tree
+      return this.loadSummaryInBackground("churn", projectDir, getChurnSummary)
+        ? this.buildMessageItem("Hotspots | loading...", "Analyzing the recent commit history")
+        : null;
+    }
+    const hotspots: ChurnStats[] = getHotspots(churnSummary, 5);
+    if (!hotspots.length) {
+      return null;
+    }
+    const hotspotChildren: KpmItem[] = hotspots.map((n: ChurnStats) => {
+      const label = `${path.basename(n.name)} | ${getReworkPercent(n)}% rework`;
+      const tooltip = `${n.rework_lines} rework lines, ${n.lines_added} added, ${n.lines_deleted} deleted in ${n.commits} commit(s)`;
+      const hotspotItem: KpmItem = this.buildMessageItem(label, tooltip, null, "codetime.openFileInEditor", [n.name]);
+      hotspotItem.id = `${n.name}_hotspot`;
+      return hotspotItem;
+    });
+    const parent: KpmItem = this.buildParentItem(
+      "Hotspots",
+      `The files with the most rework in the last ${churnSummary.days} days`,
+      hotspotChildren,
+      "ct_hotspots_toggle_node",
+      "ct_contributors_tree"
+    );
+    return parent;
+  }
+
+  async buildOwnershipItem(projectDir: string): Promise<KpmItem> {
+    const ownershipSummary: OwnershipSummary = getCachedOwnershipSummary(projectDir);
+    if (!ownershipSummary) {
+      // every file is blamed, don't hold up the tree
+      return this.loadSummaryInBackground("ownership", projectDir, getOwnershipSummary)
+        ? this.buildMessageItem("Ownership | loading...", "Analyzing the commit history and blaming the files")
+        : null;
+    }
+    if (!ownershipSummary.folders.length) {
+      return null;
+    }
+    const repoRoot = ownershipSummary.project_directory;
+    const folderChildren: KpmItem[] = ownershipSummary.folders.map((n: Ownership) => {
+      const label = `${n.name === repoRoot ? "(root files)" : path.basename(n.name)} | bus factor ${n.bus_factor}`;
+      // the root folder only has the files in the repo root
+      const children: Ownership[] =
+        n.name === repoRoot
+          ? getOwnershipChildren(ownershipSummary, repoRoot).filter((c: Ownership) => !c.is_directory)
+          : getOwnershipChildren(ownershipSummary, n.name);
+      return this.buildOwnershipNode(ownershipSummary, n, label, children, 1);
+    });
+
+    const singleOwnerFiles: string[] = ownershipSummary.single_owner_files;
+    if (singleOwnerFiles.length) {
+      const fileChildren: KpmItem[] = singleOwnerFiles.slice(0, 10).map((file: string) =>
+        this.buildMessageItem(path.relative(repoRoot, file), `Click to open ${file}`, null, "codetime.openFileInEditor", [file])
+      );
+      folderChildren.push(
+        this.buildParentItem(
+          `Single-owner files | ${singleOwnerFiles.length}`,
+          "The files only one person has ever committed to",
+          fileChildren,
+          "ct_single_owner_files_toggle_node",
+          "ct_contributors_tree"
+        )
+      );
+    }
+
+    return this.buildParentItem(
+      "Ownership",
+      "The main owners and bus factor of each folder",
+      folderChildren,
+      "ct_ownership_toggle_node",
+      "ct_contributors_tree"
+    );
+  }
+
+  /**
+   * Computes the summary after the ones already queued and refreshes the
+   * tree views once it's ready. Returns true while the summary is pending,
+   * false if it came back empty, i.e. git failed, within the retry time.
+   */
+  private loadSummaryInBackground(
+    name: string,
+    projectDir: string,
+    loader: (dir: string) => Promise<any>
+  ): boolean {
+    const key = `${name}|${projectDir}`;
+    const state = this.backgroundSummaries[key];
+    if (state === true) {
+      return true;
+    } else if (state && Date.now() - state < EMPTY_SUMMARY_RETRY_MILLIS) {
+      return false;
+    }
+    this.backgroundSummaries[key] = true;
+    const done = (summary) => {
+      if (summary) {
+        delete this.backgroundSummaries[key];
+      } else {
+        this.backgroundSummaries[key] = Date.now();
+      }
+      commands.executeCommand("codetime.refreshTreeViews");
+    };
+    this.summaryQueue = this.summaryQueue
+      .then(() => loader(projectDir))
+      .then(done)
+      .catch((e) => {
+        logIt(`Unable to build the ${name} summary: ${e.message}`);
+        done(null);
+      });
+    return true;
+  }
+
+  /**
+   * Builds the node of a file or directory with its owners, the directories
+   * drill down into their files and subdirectories
+   */
+  private buildOwnershipNode(
+    ownershipSummary: OwnershipSummary,
+    ownership: Ownership,
+    label: string,
+    children: Ownership[],
+    depth: number
+  ): KpmItem {
+    const ownerChildren: KpmItem[] = ownership.owners.slice(0, 3).map((owner: Owner) => {
+      const ownerItem: KpmItem = this.buildMessageItem(`${owner.email} | ${owner.percent}%`, `${owner.lines} lines`);
+      // the same owner is listed under many files
+      ownerItem.id = `${ownership.name}_${owner.email}_owner`;
+      return ownerItem;
+    });
+    if (!ownership.is_directory) {
+      const fileItem: KpmItem = this.buildParentItem(
+        label,
+        `${ownership.contributors} contributor(s)`,
+        ownerChildren,
+        "",
+        "ct_contributors_tree"
+      );
+      fileItem.id = `${ownership.name}_ownership`;
+      fileItem.command = "codetime.openFileInEditor";
+      fileItem.commandArgs = [ownership.name];
+      return fileItem;
+    }
+
+    // keep the tree small, the report has the rest
+    const childItems: KpmItem[] =
+      depth < MAX_OWNERSHIP_DEPTH
+        ? children.slice(0, 10).map((n: Ownership) =>
+            this.buildOwnershipNode(
+              ownershipSummary,
+              n,
+              `${path.basename(n.name)} | ${n.owners.length ? n.owners[0].email : ""}`,
+              n.is_directory ? getOwnershipChildren(ownershipSummary, n.name) : [],
+              depth + 1
+            )
+          )
+        : [];
+    const dirItem: KpmItem = this.buildParentItem(
+      label,
+      `${ownership.contributors} contributor(s), bus factor ${ownership.bus_factor}`,
+      [...ownerChildren, ...childItems],
+      "",
+      "ct_contributors_tree"
+    );
+    dirItem.id = `${ownership.name}_ownership`;
+    return dirItem;
+  }
+
+  async getCommitTimeItem(projectDir: string, commitId: string): Promise<KpmItem> {
+    const commitTime: CommitTime = await getCommitTime(projectDir, commitId);
+    if (!commitTime) {
+      return null;
+    }
+    const item: KpmItem = new KpmItem();
+    item.label = `Code time: ${humanizeMinutes(commitTime.active_seconds / 60)}`;
+    item.description = `${commitTime.files_with_activity} ${
+      commitTime.files_with_activity === 1 ? "file" : "files"
+    }`;
+    item.tooltip = "Active code time on the commit's files since your previous commit";
+    item.location = "ct_contributors_tree";
+    item.name = "ct_contributor_last_commit_time";
+    item.interactionIcon = "none";
+    item.hideCTAInTracker = true;
+    return item;
+  }
+
   getSignUpButton(signUpAuthName: string, iconColor?: string): KpmItem {
     const authType = getItem("authType");
     const signupText = authType ? "Log in" : "Sign up";
@@ -391,6 +675,17 @@ export class KpmProviderManager {
     return item;
   }
 
+  getLocalOnlyModeItem(): KpmItem {
+    const item: KpmItem = this.buildMessageItem(
+      "Local-only mode",
+      "Metrics are stored in ~/.software only. Features that need the Code Time server are disabled.",
+      "paw-outlined.svg"
+    );
+    item.location = "ct_menu_tree";
+    item.name = "ct_local_only_mode_node";
+    return item;
+  }
+
   getDividerButton(): KpmItem {
     const dividerButton: KpmItem = this.getActionButton("", "", "", "blue-line-96.png");
     return dividerButton;
@@ -510,6 +805,21 @@ export class KpmProviderManager {
     return item;
   }
 
+  getDashboardButton(): KpmItem {
+    const item: KpmItem = this.getActionButton(
+      `Open dashboard`,
+      "View charts of your coding metrics right here in your editor",
+      "codetime.viewDashboard",
+      "dashboard.svg",
+      "TreeViewLaunchChartDashboard",
+      "purple"
+    );
+    item.location = "ct_menu_tree";
+    item.name = "ct_dashboard_btn";
+    item.interactionIcon = "guage";
+    return item;
+  }
+
   getAuthTypeIconAndLabel() {
     const authType = getItem("authType");
     const name = getItem("name");
@@ -581,6 +891,8 @@ export class KpmProviderManager {
     );
 
     const dayStr = moment().format("ddd");
+    // the global averages come from the server
+    const showGlobalAverages = !isLocalOnlyMode();
 
     // ACTIVE CODE TIME MINUTES and AVERAGES
     values = [];
@@ -595,11 +907,13 @@ export class KpmProviderManager {
       label: `Your average (${dayStr}): ${avgMin}`,
       icon: activityLightningBolt,
     });
-    const globalMinutesStr = humanizeMinutes(data.globalAverageDailyMinutes);
-    values.push({
-      label: `Global average (${dayStr}): ${globalMinutesStr}`,
-      icon: "global-grey.svg",
-    });
+    if (showGlobalAverages) {
+      const globalMinutesStr = humanizeMinutes(data.globalAverageDailyMinutes);
+      values.push({
+        label: `Global average (${dayStr}): ${globalMinutesStr}`,
+        icon: "global-grey.svg",
+      });
+    }
     items.push(
       this.buildActivityComparisonNodes(
         "Active code time",
@@ -621,11 +935,13 @@ export class KpmProviderManager {
       label: `Your average (${dayStr}): ${userLinesAddedAvg}`,
       icon: linesAddedLightningBolt,
     });
-    const globalLinesAdded = numeral(data.globalAverageLinesAdded).format("0 a");
-    values.push({
-      label: `Global average (${dayStr}): ${globalLinesAdded}`,
-      icon: "global-grey.svg",
-    });
+    if (showGlobalAverages) {
+      const globalLinesAdded = numeral(data.globalAverageLinesAdded).format("0 a");
+      values.push({
+        label: `Global average (${dayStr}): ${globalLinesAdded}`,
+        icon: "global-grey.svg",
+      });
+    }
     items.push(this.buildActivityComparisonNodes(
       "Lines added",
       "",
@@ -645,11 +961,13 @@ export class KpmProviderManager {
       label: `Your average (${dayStr}): ${userLinesRemovedAvg}`,
       icon: linesRemovedLightningBolt,
     });
-    const globalLinesRemoved = numeral(data.globalAverageLinesRemoved).format("0 a");
-    values.push({
-      label: `Global average (${dayStr}): ${globalLinesRemoved}`,
-      icon: "global-grey.svg",
-    });
+    if (showGlobalAverages) {
+      const globalLinesRemoved = numeral(data.globalAverageLinesRemoved).format("0 a");
+      values.push({
+        label: `Global average (${dayStr}): ${globalLinesRemoved}`,
+        icon: "global-grey.svg",
+      });
+    }
     items.push(this.buildActivityComparisonNodes(
       "Lines removed",
       "",
@@ -669,11 +987,13 @@ export class KpmProviderManager {
       label: `Your average (${dayStr}): ${userKeystrokesAvg}`,
       icon: keystrokesLightningBolt,
     });
-    const globalKeystrokes = numeral(data.globalAverageDailyKeystrokes).format("0 a");
-    values.push({
-      label: `Global average (${dayStr}): ${globalKeystrokes}`,
-      icon: "global-grey.svg",
-    });
+    if (showGlobalAverages) {
+      const globalKeystrokes = numeral(data.globalAverageDailyKeystrokes).format("0 a");
+      values.push({
+        label: `Global average (${dayStr}): ${globalKeystrokes}`,
+        icon: "global-grey.svg",
+      });
+    }
     items.push(this.buildActivityComparisonNodes(
       "Keystrokes",
       "",
@@ -786,6 +1106,59 @@ export class KpmProviderManager {
     return item;
   }
 
+  buildOutboxItem(): KpmItem {
+    const outboxMgr: OutboxManager = OutboxManager.getInstance();
+    const queueDepth = outboxMgr.getQueueDepth();
+    if (!queueDepth) {
+      return null;
+    }
+    const values = [{ label: `Queued: ${numeral(queueDepth).format("0 a")}`, icon: "rocket-grey.svg" }];
+    const dropped = outboxMgr.getDroppedCount();
+    if (dropped) {
+      values.push({ label: `Dropped: ${numeral(dropped).format("0 a")}`, icon: "deletion.svg" });
+    }
+    return this.buildActivityComparisonNodes(
+      "Pending uploads",
+      "Payloads saved offline that will be sent once the server is available",
+      values,
+      TreeItemCollapsibleState.Collapsed,
+      "ct_pending_uploads_toggle_node"
+    );
+  }
+
+  buildLanguagesItem(): KpmItem {
+    const { day } = getNowTimes();
+    const languages: LanguageHistory[] = getLanguageBreakdown(getHistoryForRange(day, day));
+    if (!languages.length) {
+      return null;
+    }
+    const languageChildren: KpmItem[] = languages.slice(0, 5).map((n: LanguageHistory) => {
+      const codeHours = humanizeMinutes(n.duration_seconds / 60);
+      const keystrokesStr = numeral(n.keystrokes).format("0 a");
+      const tooltip = `${keystrokesStr} keystrokes, ${n.lines_added} lines added, ${n.lines_removed} lines removed in ${n.files} file(s)`;
+      return this.buildMessageItem(`${n.language} | ${codeHours}`, tooltip);
+    });
+    return this.buildParentItem("Languages", "Code time by language today", languageChildren, "ct_languages_toggle_node");
+  }
+
+  buildBranchesItem(): KpmItem {
+    const { day } = getNowTimes();
+    const branches: BranchTime[] = getBranchTimes(day, day);
+    if (!branches.length) {
+      return null;
+    }
+    // the same branch name can be in more than one project
+    const showProject = branches.some((n: BranchTime) => n.project_directory !== branches[0].project_directory);
+    const branchChildren: KpmItem[] = branches.slice(0, 5).map((n: BranchTime) => {
+      const codeHours = humanizeMinutes(n.active_seconds / 60);
+      const label = showProject ? `${n.project_name}: ${n.branch} | ${codeHours}` : `${n.branch} | ${codeHours}`;
+      const keystrokesStr = numeral(n.keystrokes).format("0 a");
+      const tooltip = `${n.project_name} ${n.branch}: ${keystrokesStr} keystrokes, ${n.lines_added} lines added, ${n.lines_removed} lines removed`;
+      return this.buildMessageItem(label, tooltip);
+    });
+    return this.buildParentItem("Branches", "Active code time by branch today", branchChildren, "ct_branches_toggle_node");
+  }
+
   buildMostEditedFileItem(fileChangeInfos: FileChangeInfo[]): KpmItem {
     if (!fileChangeInfos || fileChangeInfos.length === 0) {
       return null;
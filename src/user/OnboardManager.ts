@@ -1,5 +1,5 @@
 import { window, ExtensionContext } from "vscode";
-import { showOfflinePrompt, setItem, getItem } from "../Util";
+import { showOfflinePrompt, setItem, getItem, isLocalOnlyMode } from "../Util";
 import { serverIsAvailable } from "../http/HttpClient";
 import { createAnonymousUser } from "../menu/AccountManager";
 import jwt_decode = require('jwt-decode');
@@ -8,6 +8,11 @@ let retry_counter = 0;
 const one_min_millis = 1000 * 60;
 
 export function onboardInit(ctx: ExtensionContext, callback: any) {
+    if (isLocalOnlyMode()) {
+        // no account is needed, initialize using the local data files
+        return callback(ctx, false /*anonCreated*/);
+    }
+
     let jwt = getItem("jwt");
 
     const windowState = window.state;
@@ -0,0 +1,106 @@
+import * as assert from "assert";
+import { parseDeletedRanges, DeletedRange } from "../src/repo/GitChurn";
+
+function toRange(commitId: string, timestamp: number, file: string, start: number, count: number): DeletedRange {
+    const range: DeletedRange = new DeletedRange();
+    range.commitId = commitId;
+    range.timestamp = timestamp;
+    range.file = file;
+    range.start = start;
+    range.count = count;
+    return range;
+}
+
+suite("GitChurn", () => {
+    test("parses the deleted ranges of the zero context hunks", () => {
+        const lines = [
+            "COMMIT:aaa,200",
+            "",
+            "diff --git a/src/a.ts b/src/a.ts",
+            "index 1111111..2222222 100644",
+            "--- a/src/a.ts",
+            "+++ b/src/a.ts",
+            "@@ -3,2 +2,0 @@ function a() {",
+            "-foo",
+            "-bar",
+            "@@ -10 +8 @@",
+            "-baz",
+            "+qux",
+            "@@ -20,0 +18,2 @@",
+            "+added",
+            "+added",
+        ];
+        assert.deepStrictEqual(parseDeletedRanges(lines), [
+            toRange("aaa", 200, "src/a.ts", 3, 2),
+            toRange("aaa", 200, "src/a.ts", 10, 1),
+        ]);
+    });
+
+    test("skips the new files and keeps the deleted ones", () => {
+        const lines = [
+            "COMMIT:bbb,100",
+            "diff --git a/new.ts b/new.ts",
+            "new file mode 100644",
+            "--- /dev/null",
+            "+++ b/new.ts",
+            "@@ -0,0 +1 @@",
+            "+x",
+            "diff --git a/gone.ts b/gone.ts",
+            "deleted file mode 100644",
+            "--- a/gone.ts",
+            "+++ /dev/null",
+            "@@ -1,2 +0,0 @@",
+            "-a",
+            "-b",
+        ];
+        assert.deepStrictEqual(parseDeletedRanges(lines), [toRange("bbb", 100, "gone.ts", 1, 2)]);
+    });
+
+    test("a deleted line that looks like a file header isn't one", () => {
+        const lines = [
+            "COMMIT:ccc,300",
+            "diff --git a/notes.md b/notes.md",
+            "--- a/notes.md",
+            "+++ b/notes.md",
+            "@@ -1,2 +1 @@",
+            "--- a/other.md",
+            "-text",
+            "+text",
+            "@@ -5 +4,0 @@",
+            "-more",
+        ];
+        assert.deepStrictEqual(parseDeletedRanges(lines), [
+            toRange("ccc", 300, "notes.md", 1, 2),
+            toRange("ccc", 300, "notes.md", 5, 1),
+        ]);
+    });
+
+    test("assigns the ranges to their commits in order", () => {
+        const lines = [
+            "COMMIT:ddd,400",
+            "diff --git a/a.ts b/a.ts",
+            "--- a/a.ts",
+            "+++ b/a.ts",
+            "@@ -1 +1 @@",
+            "-x",
+            "+y",
+            "COMMIT:eee,350",
+            "diff --git a/b.ts b/b.ts",
+            "--- a/b.ts",
+            "+++ b/b.ts",
+            "@@ -7,3 +6,0 @@",
+            "-1",
+            "-2",
+            "-3",
+        ];
+        assert.deepStrictEqual(parseDeletedRanges(lines), [
+            toRange("ddd", 400, "a.ts", 1, 1),
+            toRange("eee", 350, "b.ts", 7, 3),
+        ]);
+    });
+
+    test("returns no ranges for a commit without a diff", () => {
+        assert.deepStrictEqual(parseDeletedRanges(["COMMIT:fff,500", ""]), []);
+        assert.deepStrictEqual(parseDeletedRanges([]), []);
+    });
+});
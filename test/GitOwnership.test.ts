@@ -0,0 +1,38 @@
+import * as assert from "assert";
+import { buildOwnership } from "../src/repo/GitOwnership";
+import Ownership from "../src/model/Ownership";
+
+suite("GitOwnership", () => {
+    test("the bus factor is the fewest owners of more than half of the lines", () => {
+        assert.strictEqual(buildOwnership("/repo/a.ts", false, { a: 60, b: 40 }).bus_factor, 1);
+        assert.strictEqual(buildOwnership("/repo/a.ts", false, { a: 50, b: 30, c: 20 }).bus_factor, 2);
+        assert.strictEqual(buildOwnership("/repo/a.ts", false, { a: 25, b: 25, c: 25, d: 25 }).bus_factor, 3);
+    });
+
+    test("sorts the owners by their lines with their share", () => {
+        const ownership: Ownership = buildOwnership("/repo/src", true, { b: 10, a: 30 });
+        assert.strictEqual(ownership.name, "/repo/src");
+        assert.strictEqual(ownership.is_directory, true);
+        assert.strictEqual(ownership.lines, 40);
+        assert.deepStrictEqual(
+            ownership.owners.map((n) => [n.email, n.lines, n.percent]),
+            [
+                ["a", 30, 75],
+                ["b", 10, 25],
+            ]
+        );
+    });
+
+    test("skips the owners without lines", () => {
+        const ownership: Ownership = buildOwnership("/repo/a.ts", false, { a: 0, b: 5 });
+        assert.deepStrictEqual(ownership.owners.map((n) => n.email), ["b"]);
+        assert.strictEqual(ownership.bus_factor, 1);
+    });
+
+    test("an empty file has no owners and no bus factor", () => {
+        const ownership: Ownership = buildOwnership("/repo/empty.ts", false, {});
+        assert.strictEqual(ownership.lines, 0);
+        assert.deepStrictEqual(ownership.owners, []);
+        assert.strictEqual(ownership.bus_factor, 0);
+    });
+});
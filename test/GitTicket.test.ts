@@ -0,0 +1,38 @@
+import * as assert from "assert";
+import { extractTicketIds } from "../src/repo/GitTicket";
+
+suite("GitTicket", () => {
+    const patterns = [/[A-Z][A-Z0-9]+-\d+/g, /#\d+/g];
+
+    test("returns the unique ids in the order they're found", () => {
+        assert.deepStrictEqual(extractTicketIds("feature/PROJ-1234-fix-#12 and PROJ-1234", patterns), [
+            "PROJ-1234",
+            "#12",
+        ]);
+    });
+
+    test("returns no ids for an empty text", () => {
+        assert.deepStrictEqual(extractTicketIds("", patterns), []);
+        assert.deepStrictEqual(extractTicketIds(null, patterns), []);
+    });
+
+    test("uses the first capture group as the id", () => {
+        assert.deepStrictEqual(extractTicketIds("fixes #12 and #34", [/#(\d+)/g]), ["12", "34"]);
+        assert.deepStrictEqual(extractTicketIds("ticket/ab-7", [/ticket\/([a-z]+-\d+)/g]), ["ab-7"]);
+    });
+
+    test("uses the whole match when the capture group didn't match", () => {
+        assert.deepStrictEqual(extractTicketIds("T-", [/T-(\d+)?/g]), ["T-"]);
+    });
+
+    test("skips the empty matches without looping forever", () => {
+        assert.deepStrictEqual(extractTicketIds("abc", [/x*/g]), []);
+        assert.deepStrictEqual(extractTicketIds("axxb", [/x*/g]), ["xx"]);
+    });
+
+    test("restarts a regex that was used before", () => {
+        const regex = /#\d+/g;
+        assert.deepStrictEqual(extractTicketIds("#1 #2", [regex]), ["#1", "#2"]);
+        assert.deepStrictEqual(extractTicketIds("#3", [regex]), ["#3"]);
+    });
+});
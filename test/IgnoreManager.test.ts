@@ -0,0 +1,66 @@
+import * as assert from "assert";
+import { IgnoreManager, IgnoreRule } from "../src/managers/IgnoreManager";
+
+// the rules are private, they're parsed and applied like the .codetimeignore file
+function isIgnored(patterns: string[], relativePath: string): boolean {
+    const ignoreMgr: any = IgnoreManager.getInstance();
+    const rules: IgnoreRule[] = ignoreMgr.parseRules(patterns);
+    return ignoreMgr.applyRules(rules, relativePath, false);
+}
+
+suite("IgnoreManager", () => {
+    test("matches an unanchored pattern in any folder", () => {
+        assert.strictEqual(isIgnored(["*.log"], "debug.log"), true);
+        assert.strictEqual(isIgnored(["*.log"], "logs/2020/debug.log"), true);
+        assert.strictEqual(isIgnored(["*.log"], "debug.ts"), false);
+    });
+
+    test("skips comments and blank lines", () => {
+        assert.strictEqual(isIgnored(["# *.ts", "", "   "], "index.ts"), false);
+    });
+
+    test("a negated rule includes the files again", () => {
+        const patterns = ["*.log", "!keep.log"];
+        assert.strictEqual(isIgnored(patterns, "debug.log"), true);
+        assert.strictEqual(isIgnored(patterns, "keep.log"), false);
+        assert.strictEqual(isIgnored(patterns, "logs/keep.log"), false);
+    });
+
+    test("the last matching rule wins", () => {
+        assert.strictEqual(isIgnored(["!keep.log", "*.log"], "keep.log"), true);
+    });
+
+    test("a trailing slash only matches the files in the folder", () => {
+        assert.strictEqual(isIgnored(["build/"], "build/out.js"), true);
+        assert.strictEqual(isIgnored(["build/"], "src/build/out.js"), true);
+        assert.strictEqual(isIgnored(["build/"], "build"), false);
+    });
+
+    test("a pattern without a trailing slash matches files and folders", () => {
+        assert.strictEqual(isIgnored(["build"], "build"), true);
+        assert.strictEqual(isIgnored(["build"], "build/out.js"), true);
+        assert.strictEqual(isIgnored(["build"], "builder.js"), false);
+    });
+
+    test("a slash anchors the pattern to the folder root", () => {
+        assert.strictEqual(isIgnored(["/dist"], "dist/index.js"), true);
+        assert.strictEqual(isIgnored(["/dist"], "packages/dist/index.js"), false);
+        assert.strictEqual(isIgnored(["src/gen"], "src/gen/api.ts"), true);
+        assert.strictEqual(isIgnored(["src/gen"], "lib/src/gen/api.ts"), false);
+    });
+
+    test("a negated folder keeps the files in it", () => {
+        const patterns = ["vendor/", "!vendor/own/"];
+        assert.strictEqual(isIgnored(patterns, "vendor/lib.js"), true);
+        assert.strictEqual(isIgnored(patterns, "vendor/own/lib.js"), false);
+    });
+
+    test("matches the glob wildcards", () => {
+        assert.strictEqual(isIgnored(["**/fixtures/**"], "test/unit/fixtures/a.json"), true);
+        assert.strictEqual(isIgnored(["src/*.ts"], "src/a.ts"), true);
+        assert.strictEqual(isIgnored(["src/*.ts"], "src/sub/a.ts"), false);
+        assert.strictEqual(isIgnored(["file?.txt"], "file1.txt"), true);
+        assert.strictEqual(isIgnored(["file[!0-9].txt"], "file1.txt"), false);
+        assert.strictEqual(isIgnored(["file[!0-9].txt"], "fileA.txt"), true);
+    });
+});